@@ -0,0 +1,34 @@
+import type { TourHistory } from "../lib/tourStore";
+import "./HistoryPanel.css";
+
+interface HistoryPanelProps {
+  history: TourHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ history, onJump, onClose }: HistoryPanelProps) {
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <h4>History</h4>
+        <button className="close-selector-btn" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <ol className="history-list">
+        {history.entries.map((entry, index) => (
+          <li
+            key={index}
+            className={`history-entry ${
+              index === history.index ? "current" : ""
+            } ${index > history.index ? "undone" : ""}`}
+            onClick={() => onJump(index)}
+          >
+            {entry.label}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
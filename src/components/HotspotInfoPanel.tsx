@@ -0,0 +1,59 @@
+import { renderMarkdown } from "../lib/markdown";
+import type { Hotspot } from "../lib/tourGraph";
+import "./HotspotInfoPanel.css";
+
+interface HotspotInfoPanelProps {
+  hotspot: Hotspot;
+  onClose: () => void;
+}
+
+export function HotspotInfoPanel({ hotspot, onClose }: HotspotInfoPanelProps) {
+  const content = hotspot.content ?? {};
+
+  return (
+    <div
+      className="hotspot-info-panel"
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.stopPropagation()}
+    >
+      <div className="info-panel-header">
+        <h3>{hotspot.label}</h3>
+        <button className="info-panel-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      {content.imageUrl && (
+        <img src={content.imageUrl} alt={hotspot.label} className="info-image" />
+      )}
+
+      {content.text && (
+        <div
+          className="info-text"
+          // renderMarkdown escapes its input before adding markup
+          dangerouslySetInnerHTML={{ __html: renderMarkdown(content.text) }}
+        />
+      )}
+
+      {content.videoUrl && (
+        <video src={content.videoUrl} className="info-video" controls />
+      )}
+
+      {content.linkUrl && (
+        <a
+          href={content.linkUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="info-link"
+        >
+          Open link ↗
+        </a>
+      )}
+
+      {!content.text &&
+        !content.imageUrl &&
+        !content.videoUrl &&
+        !content.linkUrl && <p className="info-empty">No details yet.</p>}
+    </div>
+  );
+}
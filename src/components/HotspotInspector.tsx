@@ -0,0 +1,312 @@
+import { useRef, useState } from "react";
+import { isWebUrl } from "../lib/tourGraph";
+import type {
+  Hotspot,
+  HotspotContent,
+  ImageNodeData,
+  TransitionType,
+} from "../lib/tourGraph";
+import "./HotspotInspector.css";
+
+interface HotspotInspectorProps {
+  hotspot: Hotspot;
+  linkTargets: ImageNodeData[];
+  onChange: (hotspot: Hotspot) => void;
+  onDelete: () => void;
+  onNavigate?: (targetNodeId: string) => void;
+  onPreview: () => void;
+  onClose: () => void;
+}
+
+export function HotspotInspector({
+  hotspot,
+  linkTargets,
+  onChange,
+  onDelete,
+  onNavigate,
+  onPreview,
+  onClose,
+}: HotspotInspectorProps) {
+  // Text fields are committed on blur/Enter so typing doesn't rebuild the scene
+  const [labelInput, setLabelInput] = useState(hotspot.label);
+  const [textInput, setTextInput] = useState(hotspot.content?.text ?? "");
+  const [linkInput, setLinkInput] = useState(hotspot.content?.linkUrl ?? "");
+  const [arrivalInput, setArrivalInput] = useState(
+    hotspot.arrivalHeading?.toString() ?? ""
+  );
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const content = hotspot.content ?? {};
+
+  const updateContent = (changes: Partial<HotspotContent>) => {
+    onChange({ ...hotspot, content: { ...content, ...changes } });
+  };
+
+  const commitText = () => {
+    if (textInput !== (content.text ?? "")) {
+      updateContent({ text: textInput || undefined });
+    }
+  };
+
+  const commitLink = () => {
+    const linkUrl = linkInput.trim();
+    if (linkUrl && !isWebUrl(linkUrl)) {
+      alert("Links must start with http:// or https://");
+      setLinkInput(content.linkUrl ?? "");
+      return;
+    }
+    if (linkUrl !== (content.linkUrl ?? "")) {
+      updateContent({ linkUrl: linkUrl || undefined });
+    }
+  };
+
+  const handleMediaSelect = (
+    event: React.ChangeEvent<HTMLInputElement>,
+    field: "imageUrl" | "videoUrl"
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    updateContent({ [field]: URL.createObjectURL(file) });
+  };
+
+  const commitLabel = () => {
+    const label = labelInput.trim();
+    if (label && label !== hotspot.label) {
+      onChange({ ...hotspot, label });
+    } else {
+      setLabelInput(hotspot.label);
+    }
+  };
+
+  const handleTypeChange = (type: Hotspot["type"]) => {
+    if (type === hotspot.type) return;
+    if (type === "info") {
+      onChange({
+        ...hotspot,
+        type,
+        targetNodeId: undefined,
+        transition: undefined,
+        arrivalHeading: undefined,
+      });
+      return;
+    }
+    const target = linkTargets[0];
+    if (!target) return;
+    onChange({ ...hotspot, type, targetNodeId: target.id });
+  };
+
+  // Blank leaves the target scene's own starting view
+  const commitArrival = () => {
+    const value = arrivalInput.trim();
+    const heading = value ? Number(value) : undefined;
+    if (heading !== undefined && !(Math.abs(heading) <= 180)) {
+      alert("Arrival heading must be between -180° and 180°");
+      setArrivalInput(hotspot.arrivalHeading?.toString() ?? "");
+      return;
+    }
+    if (heading !== hotspot.arrivalHeading) {
+      onChange({ ...hotspot, arrivalHeading: heading });
+    }
+  };
+
+  const handleTargetChange = (targetNodeId: string) => {
+    const target = linkTargets.find((node) => node.id === targetNodeId);
+    if (!target) return;
+    // Keep auto-generated labels in sync with the scene they point at
+    const previous = linkTargets.find(
+      (node) => node.id === hotspot.targetNodeId
+    );
+    const label =
+      previous && previous.label === hotspot.label
+        ? target.label
+        : hotspot.label;
+    setLabelInput(label);
+    onChange({ ...hotspot, targetNodeId, label });
+  };
+
+  return (
+    <div
+      className="hotspot-inspector"
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.stopPropagation()}
+    >
+      <div className="inspector-header">
+        <h4>Hotspot</h4>
+        <button className="inspector-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <label className="inspector-field">
+        <span>Label</span>
+        <input
+          type="text"
+          value={labelInput}
+          onChange={(e) => setLabelInput(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e) => e.key === "Enter" && commitLabel()}
+        />
+      </label>
+
+      <label className="inspector-field">
+        <span>Type</span>
+        <select
+          value={hotspot.type}
+          onChange={(e) => handleTypeChange(e.target.value as Hotspot["type"])}
+        >
+          <option value="info">Info</option>
+          <option value="link" disabled={linkTargets.length === 0}>
+            Link
+          </option>
+        </select>
+      </label>
+
+      {hotspot.type === "link" && (
+        <label className="inspector-field">
+          <span>Target scene</span>
+          <select
+            value={hotspot.targetNodeId ?? ""}
+            onChange={(e) => handleTargetChange(e.target.value)}
+          >
+            {linkTargets.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {hotspot.type === "link" && (
+        <>
+          <label className="inspector-field">
+            <span>Transition</span>
+            <select
+              value={hotspot.transition ?? "crossfade"}
+              onChange={(e) =>
+                onChange({
+                  ...hotspot,
+                  transition: e.target.value as TransitionType,
+                })
+              }
+            >
+              <option value="crossfade">Crossfade</option>
+              <option value="zoom">Zoom toward the hotspot</option>
+              <option value="blur">Blur through</option>
+              <option value="none">Cut</option>
+            </select>
+          </label>
+
+          <label className="inspector-field">
+            <span>Arrival heading (° from the image centre)</span>
+            <input
+              type="number"
+              min={-180}
+              max={180}
+              value={arrivalInput}
+              onChange={(e) => setArrivalInput(e.target.value)}
+              onBlur={commitArrival}
+              onKeyDown={(e) => e.key === "Enter" && commitArrival()}
+              placeholder="Scene's starting view"
+            />
+          </label>
+        </>
+      )}
+
+      {hotspot.type === "info" && (
+        <div className="inspector-content">
+          <label className="inspector-field">
+            <span>Text (Markdown)</span>
+            <textarea
+              value={textInput}
+              onChange={(e) => setTextInput(e.target.value)}
+              onBlur={commitText}
+              rows={5}
+              placeholder="**Bold**, *italic*, - lists, [links](https://...)"
+            />
+          </label>
+
+          <div className="inspector-field">
+            <span>Image</span>
+            {content.imageUrl ? (
+              <div className="inspector-media">
+                <img src={content.imageUrl} alt="" />
+                <button onClick={() => updateContent({ imageUrl: undefined })}>
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => imageInputRef.current?.click()}>
+                Add image
+              </button>
+            )}
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              onChange={(e) => handleMediaSelect(e, "imageUrl")}
+              style={{ display: "none" }}
+            />
+          </div>
+
+          <div className="inspector-field">
+            <span>Video</span>
+            {content.videoUrl ? (
+              <div className="inspector-media">
+                <video src={content.videoUrl} muted />
+                <button onClick={() => updateContent({ videoUrl: undefined })}>
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => videoInputRef.current?.click()}>
+                Add video
+              </button>
+            )}
+            <input
+              ref={videoInputRef}
+              type="file"
+              accept="video/*"
+              onChange={(e) => handleMediaSelect(e, "videoUrl")}
+              style={{ display: "none" }}
+            />
+          </div>
+
+          <label className="inspector-field">
+            <span>External link</span>
+            <input
+              type="url"
+              value={linkInput}
+              onChange={(e) => setLinkInput(e.target.value)}
+              onBlur={commitLink}
+              onKeyDown={(e) => e.key === "Enter" && commitLink()}
+              placeholder="https://..."
+            />
+          </label>
+        </div>
+      )}
+
+      <p className="inspector-hint">Drag the hotspot to move it.</p>
+
+      <div className="inspector-buttons">
+        {hotspot.type === "link" && hotspot.targetNodeId && onNavigate && (
+          <button
+            className="inspector-go-btn"
+            onClick={() => onNavigate(hotspot.targetNodeId!)}
+          >
+            Go to scene
+          </button>
+        )}
+        {hotspot.type === "info" && (
+          <button className="inspector-go-btn" onClick={onPreview}>
+            Preview
+          </button>
+        )}
+        <button className="inspector-delete-btn" onClick={onDelete}>
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,88 @@
+import { useState } from "react";
+import type { ImageNodeData, LayoutNode } from "../lib/tourGraph";
 import "./ImageNode.css";
 
-export interface Hotspot {
-  id: string;
-  position: { x: number; y: number; z: number };
-  type: "info" | "link";
-  label: string;
-  targetNodeId?: string;
-}
-
-export interface ImageNodeData {
-  id: string;
-  imageUrl: string;
-  label: string;
-  children: ImageNodeData[];
-  hotspots: Hotspot[];
-}
-
 interface ImageNodeProps {
-  node: ImageNodeData;
+  layout: LayoutNode;
   onAddChild: (parentId: string) => void;
   onImageClick: (node: ImageNodeData) => void;
   onContextMenu: (event: React.MouseEvent, node: ImageNodeData) => void;
+  // Drag-and-drop reparenting; scenes that can't be moved aren't draggable
+  canDrag: (nodeId: string) => boolean;
+  canDrop: (nodeId: string) => boolean;
+  onDragStart: (nodeId: string) => void;
+  onDragEnd: () => void;
+  onDrop: (targetId: string) => void;
 }
 
 export function ImageNode({
-  node,
+  layout,
   onAddChild,
   onImageClick,
   onContextMenu,
+  canDrag,
+  canDrop,
+  onDragStart,
+  onDragEnd,
+  onDrop,
 }: ImageNodeProps) {
-  const hasChildren = node.children.length > 0;
+  const { node, children, crossLinks } = layout;
+  const hasChildren = children.length > 0;
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", node.id);
+    onDragStart(node.id);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canDrop(node.id)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+    onDrop(node.id);
+  };
 
   return (
     <div className="image-node-container">
       <div className="image-node-row">
         <div className="image-node-wrapper">
           <div
-            className="image-node"
+            className={`image-node ${isDropTarget ? "drop-target" : ""}`}
             onClick={() => onImageClick(node)}
             onContextMenu={(e) => onContextMenu(e, node)}
+            draggable={canDrag(node.id)}
+            onDragStart={handleDragStart}
+            onDragEnd={onDragEnd}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDropTarget(false)}
+            onDrop={handleDrop}
             style={{ cursor: "pointer" }}
           >
-            <img src={node.imageUrl} alt={node.label} className="node-image" />
+            <img
+              src={node.imageUrl}
+              alt={node.label}
+              className="node-image"
+              draggable={false}
+            />
           </div>
           <div className="node-label">{node.label}</div>
+          {/* Links to scenes drawn elsewhere in the tree */}
+          {crossLinks.length > 0 && (
+            <div className="cross-links">
+              {crossLinks.map((target) => (
+                <span key={target.id} className="cross-link">
+                  ↪ {target.label}
+                </span>
+              ))}
+            </div>
+          )}
           {/* Plus button on bottom when no children, or on right side when has children */}
           {!hasChildren && (
             <button
@@ -71,13 +110,18 @@ export function ImageNode({
         <div className="children-container">
           <div className="parent-line"></div>
           <div className="children-row">
-            {node.children.map((child) => (
-              <div key={child.id} className="child-wrapper">
+            {children.map((child) => (
+              <div key={child.node.id} className="child-wrapper">
                 <ImageNode
-                  node={child}
+                  layout={child}
                   onAddChild={onAddChild}
                   onImageClick={onImageClick}
                   onContextMenu={onContextMenu}
+                  canDrag={canDrag}
+                  canDrop={canDrop}
+                  onDragStart={onDragStart}
+                  onDragEnd={onDragEnd}
+                  onDrop={onDrop}
                 />
               </div>
             ))}
@@ -1,45 +1,239 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useReducer } from "react";
 import { ImageNode } from "./ImageNode";
-import type { ImageNodeData } from "./ImageNode";
 import { PanoramaViewer } from "./PanoramaViewer";
+import type { HotspotPlacement } from "./PanoramaViewer";
 import { PanoramaCreator } from "./PanoramaCreator";
+import { PanoramaLibrary } from "./PanoramaLibrary";
+import { ProjectPicker } from "./ProjectPicker";
+import { HistoryPanel } from "./HistoryPanel";
+import { generateId } from "../lib/ids";
+import {
+  emptyGraph,
+  findInLayout,
+  getLinkedNodes,
+  getRootNode,
+  isInBranch,
+  layoutGraph,
+  moveScene,
+  movedLinkHotspots,
+} from "../lib/tourGraph";
+import type {
+  GeoLocation,
+  Hotspot,
+  ImageNodeData,
+  ProjectionType,
+  SceneMetadata,
+  SceneView,
+  TourGraph,
+} from "../lib/tourGraph";
+import { createHistory, currentState, historyReducer } from "../lib/tourStore";
+import {
+  exportTourBundle,
+  importTourBundle,
+  remapCollidingIds,
+} from "../lib/bundle";
+import { describePanorama } from "../lib/panoramaLibrary";
+import { combineMetadata, readPhotoMetadata } from "../lib/photoMetadata";
+import {
+  PROJECTION_LABELS,
+  assembleCubeCross,
+  cubeFaceFromName,
+  guessProjection,
+} from "../lib/projections";
+import type { CubeFace } from "../lib/projections";
+import { publishTour } from "../lib/publish";
+import {
+  DEFAULT_PROJECT_NAME,
+  createProject,
+  listProjects,
+  loadProject,
+  openInitialProject,
+  saveProject,
+  setLastProjectId,
+} from "../lib/projects";
+import type { Project, ProjectSummary } from "../lib/projects";
 import "./ImageTree.css";
 import "./ContextMenu.css";
 
-interface SavedPanorama {
+export interface SavedPanorama {
   id: string;
   name: string;
   imageUrl: string;
+  // Details recorded when the panorama is saved. Panoramas saved before the
+  // library existed have none.
+  width?: number;
+  height?: number;
+  size?: number;
+  thumbnailUrl?: string;
+  createdAt?: number;
+  // File names of the photos it was stitched from
+  sourceImages?: string[];
+  // Where and when the photos were taken, passed on to its scenes
+  location?: GeoLocation;
+  capturedAt?: string;
 }
 
-function generateId(): string {
-  return Math.random().toString(36).substring(2, 11);
-}
+const AUTOSAVE_DELAY_MS = 500;
+
+const CUBE_FACES: CubeFace[] = ["front", "right", "back", "left", "up", "down"];
+
+type SaveStatus = "idle" | "saving" | "saved" | "error";
 
 export function ImageTree() {
-  const [rootNode, setRootNode] = useState<ImageNodeData | null>(null);
+  const [history, dispatch] = useReducer(historyReducer, null, () =>
+    createHistory({ graph: emptyGraph(), panoramas: [] }, "New tour")
+  );
+  const { graph, panoramas: savedPanoramas } = currentState(history);
   const [pendingParentId, setPendingParentId] = useState<string | null>(null);
   const [pendingImageUrl, setPendingImageUrl] = useState<string | null>(null);
+  const [pendingMetadata, setPendingMetadata] = useState<SceneMetadata>({});
   const [showLabelModal, setShowLabelModal] = useState(false);
   const [labelInput, setLabelInput] = useState("");
-  const [viewingImage, setViewingImage] = useState<ImageNodeData | null>(null);
+  const [viewingNodeId, setViewingNodeId] = useState<string | null>(null);
   const [isTourMode, setIsTourMode] = useState(false);
+  const [placement, setPlacement] = useState<HotspotPlacement | null>(null);
   const [contextMenu, setContextMenu] = useState<{
     x: number;
     y: number;
     node: ImageNodeData;
   } | null>(null);
   const [showPanoramaCreator, setShowPanoramaCreator] = useState(false);
-  const [savedPanoramas, setSavedPanoramas] = useState<SavedPanorama[]>([]);
   const [showImageSelector, setShowImageSelector] = useState(false);
+  const [showPanoramaLibrary, setShowPanoramaLibrary] = useState(false);
+  const [project, setProject] = useState<ProjectSummary | null>(null);
+  const [showProjectPicker, setShowProjectPicker] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const [showHistory, setShowHistory] = useState(false);
+  const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null);
+  const [replacingNodeId, setReplacingNodeId] = useState<string | null>(null);
+  const [draggingNodeId, setDraggingNodeId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  // Content as last loaded from or written to the database, used to skip
+  // autosaving a project that hasn't changed.
+  const persistedRef = useRef<{
+    graph: TourGraph;
+    panoramas: SavedPanorama[];
+  } | null>(null);
+  // Saves edits still waiting for the autosave delay straight away
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The open project, for saves that finish after switching away from it
+  const projectIdRef = useRef<string | null>(null);
+
+  const projectId = project?.id ?? null;
+  const rootNode = getRootNode(graph);
+  const viewingNode = viewingNodeId ? graph.nodes[viewingNodeId] ?? null : null;
+  const layouts = layoutGraph(graph);
+
+  const applyProject = (loaded: Project) => {
+    // Edits not yet autosaved belong to the project being left
+    pendingSaveRef.current?.();
+    clearTimeout(autosaveTimerRef.current ?? undefined);
+    projectIdRef.current = loaded.id;
+    persistedRef.current = {
+      graph: loaded.graph,
+      panoramas: loaded.panoramas,
+    };
+    setProject({
+      id: loaded.id,
+      name: loaded.name,
+      createdAt: loaded.createdAt,
+      updatedAt: loaded.updatedAt,
+    });
+    dispatch({
+      type: "reset",
+      state: { graph: loaded.graph, panoramas: loaded.panoramas },
+      label: `Open "${loaded.name}"`,
+    });
+    setViewingNodeId(null);
+    setPlacement(null);
+    setIsTourMode(false);
+    setSaveStatus("idle");
+    setLastProjectId(loaded.id);
+  };
 
-  // Log JSON structure whenever it changes
+  // Open the last used project on startup
   useEffect(() => {
-    if (rootNode) {
-      console.log("Current Tree JSON:", JSON.stringify(rootNode, null, 2));
+    let cancelled = false;
+    openInitialProject()
+      .then((loaded) => {
+        if (!cancelled) applyProject(loaded);
+      })
+      .catch((err) => {
+        console.error("Failed to open project:", err);
+        setSaveStatus("error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave the tree and panorama library
+  useEffect(() => {
+    if (!projectId) return;
+    const persisted = persistedRef.current;
+    if (
+      persisted &&
+      persisted.graph === graph &&
+      persisted.panoramas === savedPanoramas
+    ) {
+      return;
     }
-  }, [rootNode]);
+
+    const save = () => {
+      autosaveTimerRef.current = null;
+      pendingSaveRef.current = null;
+      setSaveStatus("saving");
+      saveProject(projectId, { graph, panoramas: savedPanoramas })
+        .then(() => {
+          if (projectIdRef.current !== projectId) return;
+          persistedRef.current = { graph, panoramas: savedPanoramas };
+          setSaveStatus("saved");
+        })
+        .catch((err) => {
+          console.error("Autosave failed:", err);
+          if (projectIdRef.current === projectId) {
+            setSaveStatus("error");
+          } else {
+            alert(`Could not save the previous project: ${err.message}`);
+          }
+        });
+    };
+    pendingSaveRef.current = save;
+    autosaveTimerRef.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => {
+      clearTimeout(autosaveTimerRef.current ?? undefined);
+      pendingSaveRef.current = null;
+    };
+  }, [projectId, graph, savedPanoramas]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes. Text fields keep their
+  // own native undo.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.tagName === "SELECT"
+      ) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        dispatch({ type: e.shiftKey ? "redo" : "undo" });
+      } else if (key === "y") {
+        e.preventDefault();
+        dispatch({ type: "redo" });
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
 
   // Close context menu on click outside
   useEffect(() => {
@@ -54,36 +248,185 @@ export function ImageTree() {
     setContextMenu({ x: e.clientX, y: e.clientY, node });
   };
 
+  // Opens the scene so the next click on the sphere places the hotspot
+  const startPlacement = (nodeId: string, next: HotspotPlacement) => {
+    setPlacement(next);
+    setIsTourMode(false);
+    setViewingNodeId(nodeId);
+    setContextMenu(null);
+  };
+
   const handleAddHotspot = () => {
     if (!contextMenu) return;
-    console.log("Add hotspot to:", contextMenu.node.label);
-    // Placeholder for hotspot logic
-    alert(`Add hotspot functionality for ${contextMenu.node.label}`);
+    startPlacement(contextMenu.node.id, { type: "info" });
+  };
+
+  const handleLinkImage = (targetNode: ImageNodeData) => {
+    if (!contextMenu) return;
+    startPlacement(contextMenu.node.id, { type: "link", targetNode });
+  };
+
+  // Placing a hotspot from the tree returns there once it's dropped
+  const handlePlacementDone = () => {
+    setPlacement(null);
+    setViewingNodeId(null);
+  };
+
+  const handleRenameScene = () => {
+    if (!contextMenu) return;
+    const { node } = contextMenu;
+    setRenamingNodeId(node.id);
+    setPendingImageUrl(node.imageUrl);
+    setLabelInput(node.label);
+    setShowLabelModal(true);
+    setContextMenu(null);
+  };
+
+  const handleSetProjection = (projection: ProjectionType) => {
+    if (!contextMenu) return;
+    dispatch({
+      type: "setProjection",
+      nodeId: contextMenu.node.id,
+      projection,
+    });
+    setContextMenu(null);
   };
 
-  const handleLinkImage = (childNode: ImageNodeData) => {
-    console.log("Link to image:", childNode.label);
-    // Placeholder for link logic
-    alert(`Link to ${childNode.label}`);
+  const handleReplaceImage = () => {
+    if (!contextMenu) return;
+    setReplacingNodeId(contextMenu.node.id);
+    setContextMenu(null);
+    replaceInputRef.current?.click();
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleReplaceFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0];
-    if (!file) return;
+    if (replaceInputRef.current) {
+      replaceInputRef.current.value = "";
+    }
+    if (!file || !replacingNodeId) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imageUrl = e.target?.result as string;
-      setPendingImageUrl(imageUrl);
-      setShowLabelModal(true);
-      setLabelInput("");
-    };
-    reader.readAsDataURL(file);
+    setReplacingNodeId(null);
+    dispatch({
+      type: "replaceImage",
+      nodeId: replacingNodeId,
+      imageUrl: URL.createObjectURL(file),
+      metadata: {
+        ...(await readPhotoMetadata(file)),
+        projection: await guessProjection(file),
+      },
+    });
+  };
+
+  const handleDeleteScene = () => {
+    if (!contextMenu) return;
+    dispatch({ type: "removeScene", nodeId: contextMenu.node.id });
+    setContextMenu(null);
+  };
+
+  // The starting scene stays at the top of the tree
+  const canDragNode = (nodeId: string) => nodeId !== graph.rootId;
+
+  // A scene can't be dropped onto itself or anything in its own branch
+  const canDropOnNode = (targetId: string) => {
+    if (!draggingNodeId) return false;
+    const dragged = findInLayout(layouts, draggingNodeId);
+    return (
+      !!dragged &&
+      dragged.parent?.node.id !== targetId &&
+      !isInBranch(dragged.layout, targetId)
+    );
+  };
+
+  const handleDropOnNode = (targetId: string) => {
+    setDraggingNodeId(null);
+    if (!draggingNodeId || !canDropOnNode(targetId)) return;
+    const dragged = findInLayout(layouts, draggingNodeId);
+    const fromId = dragged?.parent?.node.id ?? null;
+    const scene = graph.nodes[draggingNodeId].label;
+
+    // Another scene closer to the start may still link to it, and the tree
+    // shows each scene under the closest one
+    const moved = moveScene(graph, draggingNodeId, fromId, targetId);
+    const placed = findInLayout(layoutGraph(moved), draggingNodeId);
+    if (placed?.parent?.node.id !== targetId) {
+      alert(
+        `"${scene}" can't move there: ` +
+          `"${placed?.parent?.node.label ?? "another scene"}" links to it ` +
+          "from closer to the start of the tour."
+      );
+      return;
+    }
+
+    const removed = movedLinkHotspots(graph, draggingNodeId, fromId);
+    if (
+      removed.length > 0 &&
+      !confirm(
+        `Moving "${scene}" removes the link hotspots in ` +
+          `"${graph.nodes[fromId!].label}" that lead to it. Continue?`
+      )
+    ) {
+      return;
+    }
+    dispatch({
+      type: "moveScene",
+      nodeId: draggingNodeId,
+      fromId,
+      toId: targetId,
+    });
+  };
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = [...(event.target.files ?? [])];
+    if (files.length === 0) return;
 
     // Reset input
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
+
+    let image: Blob = files[0];
+    if (files.length === 6) {
+      // A cubemap's faces as separate files, named for the face they show
+      const faces: Partial<Record<CubeFace, File>> = {};
+      for (const file of files) {
+        const face = cubeFaceFromName(file.name);
+        if (!face || faces[face]) {
+          alert(
+            "Could not tell which cube face each file is. End each file " +
+              `name with one of: ${CUBE_FACES.join(", ")}.`
+          );
+          return;
+        }
+        faces[face] = file;
+      }
+      try {
+        image = await assembleCubeCross(faces as Record<CubeFace, File>);
+      } catch (err) {
+        console.error("Failed to assemble cubemap:", err);
+        alert("Could not combine the cube faces into one image.");
+        return;
+      }
+      setPendingMetadata({
+        ...combineMetadata(await Promise.all(files.map(readPhotoMetadata))),
+        projection: "cubemap",
+      });
+    } else if (files.length > 1) {
+      alert("Choose one panorama, or the six faces of a cubemap.");
+      return;
+    } else {
+      setPendingMetadata({
+        ...(await readPhotoMetadata(image)),
+        projection: await guessProjection(image),
+      });
+    }
+    setPendingImageUrl(URL.createObjectURL(image));
+    setShowLabelModal(true);
+    setLabelInput("");
   };
 
   const handleLabelSubmit = () => {
@@ -91,59 +434,42 @@ export function ImageTree() {
 
     const label = labelInput.trim() || "Untitled";
 
+    if (renamingNodeId) {
+      dispatch({ type: "renameScene", nodeId: renamingNodeId, label });
+      handleCancelLabel();
+      return;
+    }
+
+    const newNode: ImageNodeData = {
+      ...pendingMetadata,
+      id: generateId(),
+      imageUrl: pendingImageUrl,
+      label,
+      hotspots: [],
+    };
+
     if (!rootNode) {
-      // First image - create root
-      setRootNode({
-        id: generateId(),
-        imageUrl: pendingImageUrl,
-        label,
-        children: [],
-        hotspots: [],
-      });
+      // First image - becomes the starting scene
+      dispatch({ type: "addScene", node: newNode, parentId: null });
     } else if (pendingParentId) {
-      // Adding child to existing node
-      setRootNode((prev) => {
-        if (!prev) return prev;
-        return addChildToNode(prev, pendingParentId, {
-          id: generateId(),
-          imageUrl: pendingImageUrl,
-          label,
-          children: [],
-          hotspots: [],
-        });
-      });
+      // Adding a scene linked from an existing one
+      dispatch({ type: "addScene", node: newNode, parentId: pendingParentId });
       setPendingParentId(null);
     }
 
     setShowLabelModal(false);
     setPendingImageUrl(null);
+    setPendingMetadata({});
     setLabelInput("");
   };
 
   const handleCancelLabel = () => {
     setShowLabelModal(false);
     setPendingImageUrl(null);
+    setPendingMetadata({});
     setLabelInput("");
     setPendingParentId(null);
-  };
-
-  const addChildToNode = (
-    node: ImageNodeData,
-    parentId: string,
-    newChild: ImageNodeData
-  ): ImageNodeData => {
-    if (node.id === parentId) {
-      return {
-        ...node,
-        children: [...node.children, newChild],
-      };
-    }
-    return {
-      ...node,
-      children: node.children.map((child) =>
-        addChildToNode(child, parentId, newChild)
-      ),
-    };
+    setRenamingNodeId(null);
   };
 
   const handleAddChild = (parentId: string) => {
@@ -157,6 +483,10 @@ export function ImageTree() {
 
   const handleSelectPanorama = (panorama: SavedPanorama) => {
     setPendingImageUrl(panorama.imageUrl);
+    setPendingMetadata({
+      location: panorama.location,
+      capturedAt: panorama.capturedAt,
+    });
     setLabelInput(panorama.name);
     setShowLabelModal(true);
     setShowImageSelector(false);
@@ -167,106 +497,184 @@ export function ImageTree() {
     fileInputRef.current?.click();
   };
 
-  const handleSavePanorama = (imageUrl: string, name: string) => {
+  const handleSavePanorama = async (
+    imageUrl: string,
+    name: string,
+    source: Pick<SavedPanorama, "sourceImages" | "location" | "capturedAt">
+  ) => {
     const newPanorama: SavedPanorama = {
+      ...source,
       id: generateId(),
       name,
       imageUrl,
+      createdAt: Date.now(),
     };
-    setSavedPanoramas((prev) => [...prev, newPanorama]);
+    try {
+      Object.assign(newPanorama, await describePanorama(imageUrl));
+    } catch (err) {
+      // The library works the details out again when it's opened
+      console.error("Failed to read the new panorama:", err);
+    }
+    dispatch({ type: "addPanorama", panorama: newPanorama });
   };
 
   const handleImageClick = (node: ImageNodeData) => {
-    setViewingImage(node);
-  };
-
-  const addHotspotToNode = (
-    node: ImageNodeData,
-    targetNodeId: string,
-    hotspot: any
-  ): ImageNodeData => {
-    if (node.id === targetNodeId) {
-      return {
-        ...node,
-        hotspots: [...node.hotspots, hotspot],
-      };
-    }
-    return {
-      ...node,
-      children: node.children.map((child) =>
-        addHotspotToNode(child, targetNodeId, hotspot)
-      ),
-    };
+    setViewingNodeId(node.id);
   };
 
   const handleSaveHotspot = (
-    position: any,
+    position: Hotspot["position"],
     label: string,
     targetNodeId?: string
   ) => {
-    if (!viewingImage) return;
+    if (!viewingNodeId) return;
 
-    const newHotspot = {
+    const newHotspot: Hotspot = {
       id: generateId(),
-      position,
+      position: { x: position.x, y: position.y, z: position.z },
       type: targetNodeId ? "link" : "info",
       label,
       targetNodeId,
     };
 
-    setRootNode((prev) => {
-      if (!prev) return prev;
-      const updatedRoot = addHotspotToNode(prev, viewingImage.id, newHotspot);
-
-      // Also update the currently viewing image so the viewer updates immediately
-      // We need to find the updated node in the new tree
-      const findNode = (n: ImageNodeData, id: string): ImageNodeData | null => {
-        if (n.id === id) return n;
-        for (const child of n.children) {
-          const found = findNode(child, id);
-          if (found) return found;
-        }
-        return null;
-      };
+    dispatch({
+      type: "addHotspot",
+      nodeId: viewingNodeId,
+      hotspot: newHotspot,
+    });
+  };
 
-      const updatedViewingNode = findNode(updatedRoot, viewingImage.id);
-      if (updatedViewingNode) {
-        setViewingImage(updatedViewingNode);
-      }
+  const handleUpdateHotspot = (hotspot: Hotspot) => {
+    if (!viewingNodeId) return;
+    dispatch({ type: "updateHotspot", nodeId: viewingNodeId, hotspot });
+  };
 
-      return updatedRoot;
-    });
+  const handleDeleteHotspot = (hotspotId: string) => {
+    if (!viewingNodeId) return;
+    dispatch({ type: "removeHotspot", nodeId: viewingNodeId, hotspotId });
+  };
+
+  const handleUpdateView = (view: SceneView) => {
+    if (!viewingNodeId) return;
+    dispatch({ type: "setSceneView", nodeId: viewingNodeId, view });
   };
 
   const handleTourStart = () => {
     if (rootNode) {
       setIsTourMode(true);
-      setViewingImage(rootNode);
+      setViewingNodeId(rootNode.id);
     }
   };
 
   const handleNavigate = (targetNodeId: string) => {
-    // Find the node in the tree
-    const findNode = (n: ImageNodeData, id: string): ImageNodeData | null => {
-      if (n.id === id) return n;
-      for (const child of n.children) {
-        const found = findNode(child, id);
-        if (found) return found;
-      }
-      return null;
-    };
-
-    if (rootNode) {
-      const targetNode = findNode(rootNode, targetNodeId);
-      if (targetNode) {
-        setViewingImage(targetNode);
-      }
+    if (graph.nodes[targetNodeId]) {
+      setViewingNodeId(targetNodeId);
     }
   };
 
   const handleViewerClose = () => {
-    setViewingImage(null);
+    setViewingNodeId(null);
     setIsTourMode(false);
+    setPlacement(null);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    setShowProjectPicker(false);
+    try {
+      applyProject(await loadProject(id));
+    } catch (err) {
+      console.error("Failed to open project:", err);
+      alert(`Could not open project: ${(err as Error).message}`);
+    }
+  };
+
+  const handleProjectRenamed = (renamed: ProjectSummary) => {
+    if (renamed.id === projectId) {
+      setProject(renamed);
+    }
+  };
+
+  const handleProjectDeleted = async (id: string) => {
+    if (id !== projectId) return;
+    // The open project is gone, and so are its unsaved edits - fall back to
+    // the most recent one
+    clearTimeout(autosaveTimerRef.current ?? undefined);
+    pendingSaveRef.current = null;
+    try {
+      const [next] = await listProjects();
+      applyProject(
+        next
+          ? await loadProject(next.id)
+          : await createProject(DEFAULT_PROJECT_NAME)
+      );
+    } catch (err) {
+      console.error("Failed to open project:", err);
+      alert(`Could not open project: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExportBundle = async () => {
+    const name = project?.name ?? DEFAULT_PROJECT_NAME;
+    try {
+      const blob = await exportTourBundle({
+        name,
+        graph,
+        panoramas: savedPanoramas,
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${name.replace(/[^\w\- ]+/g, "_")}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Export failed:", err);
+      alert(`Export failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!rootNode) return;
+    const name = project?.name ?? DEFAULT_PROJECT_NAME;
+    try {
+      const blob = await publishTour(name, graph);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${name.replace(/[^\w\- ]+/g, "_")} (player).zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Publish failed:", err);
+      alert(`Publish failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handleImportBundle = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (bundleInputRef.current) {
+      bundleInputRef.current.value = "";
+    }
+    if (!file) return;
+
+    try {
+      const bundle = remapCollidingIds(
+        await importTourBundle(file),
+        graph,
+        savedPanoramas
+      );
+      dispatch({
+        type: "importTour",
+        name: bundle.name,
+        graph: bundle.graph,
+        panoramas: bundle.panoramas,
+      });
+    } catch (err) {
+      console.error("Import failed:", err);
+      alert(`Import failed: ${(err as Error).message}`);
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -284,9 +692,122 @@ export function ImageTree() {
         ref={fileInputRef}
         onChange={handleFileSelect}
         accept="image/*"
+        multiple
+        style={{ display: "none" }}
+      />
+      <input
+        type="file"
+        ref={replaceInputRef}
+        onChange={handleReplaceFileSelect}
+        accept="image/*"
         style={{ display: "none" }}
       />
 
+      {/* Project Bar */}
+      <div className="project-bar">
+        <button
+          className="project-btn"
+          onClick={() => setShowProjectPicker(true)}
+        >
+          📂 {project?.name ?? "Loading..."}
+        </button>
+        <button
+          className="history-btn"
+          onClick={() => dispatch({ type: "undo" })}
+          disabled={history.index === 0}
+          title="Undo (Ctrl+Z)"
+        >
+          ↶
+        </button>
+        <button
+          className="history-btn"
+          onClick={() => dispatch({ type: "redo" })}
+          disabled={history.index === history.entries.length - 1}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          ↷
+        </button>
+        <button
+          className="history-btn"
+          onClick={() => setShowHistory((prev) => !prev)}
+        >
+          History
+        </button>
+        <button
+          className="history-btn"
+          onClick={() => setShowPanoramaLibrary(true)}
+        >
+          Panoramas
+        </button>
+        <button
+          className="export-btn"
+          onClick={handleExportBundle}
+          disabled={!rootNode && savedPanoramas.length === 0}
+        >
+          Export
+        </button>
+        <button
+          className="export-btn"
+          onClick={() => bundleInputRef.current?.click()}
+        >
+          Import
+        </button>
+        <button
+          className="export-btn"
+          onClick={handlePublish}
+          disabled={!rootNode}
+        >
+          Publish
+        </button>
+        <input
+          type="file"
+          ref={bundleInputRef}
+          onChange={handleImportBundle}
+          accept=".zip,application/zip"
+          style={{ display: "none" }}
+        />
+        <span className={`save-status ${saveStatus}`}>
+          {saveStatus === "saving" && "Saving..."}
+          {saveStatus === "saved" && "All changes saved"}
+          {saveStatus === "error" && "Could not save changes"}
+        </span>
+      </div>
+
+      {/* History Panel */}
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onJump={(index) => dispatch({ type: "jump", index })}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Panorama Library */}
+      {showPanoramaLibrary && (
+        <PanoramaLibrary
+          panoramas={savedPanoramas}
+          graph={graph}
+          onRename={(panoramaId, name) =>
+            dispatch({ type: "renamePanorama", panoramaId, name })
+          }
+          onDelete={(panoramaId, cascade) =>
+            dispatch({ type: "removePanorama", panoramaId, cascade })
+          }
+          onClose={() => setShowPanoramaLibrary(false)}
+        />
+      )}
+
+      {/* Project Picker */}
+      {showProjectPicker && (
+        <ProjectPicker
+          currentProjectId={projectId}
+          onOpen={handleOpenProject}
+          onRenamed={handleProjectRenamed}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setShowProjectPicker(false)}
+        />
+      )}
+
       {/* Label Modal */}
       {showLabelModal && (
         <div className="modal-overlay">
@@ -296,7 +817,9 @@ export function ImageTree() {
                 <img src={pendingImageUrl} alt="Preview" />
               </div>
             )}
-            <h3>Add a label for this image</h3>
+            <h3>
+              {renamingNodeId ? "Rename scene" : "Add a label for this image"}
+            </h3>
             <input
               type="text"
               value={labelInput}
@@ -306,12 +829,32 @@ export function ImageTree() {
               className="label-input"
               autoFocus
             />
+            {!renamingNodeId && (
+              <label className="projection-field">
+                <span>Projection</span>
+                <select
+                  value={pendingMetadata.projection ?? "equirectangular"}
+                  onChange={(e) =>
+                    setPendingMetadata((prev) => ({
+                      ...prev,
+                      projection: e.target.value as ProjectionType,
+                    }))
+                  }
+                >
+                  {Object.entries(PROJECTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
             <div className="modal-buttons">
               <button onClick={handleCancelLabel} className="cancel-btn">
                 Cancel
               </button>
               <button onClick={handleLabelSubmit} className="submit-btn">
-                Add Image
+                {renamingNodeId ? "Rename" : "Add Image"}
               </button>
             </div>
           </div>
@@ -328,21 +871,46 @@ export function ImageTree() {
           <div className="menu-item" onClick={handleAddHotspot}>
             Add hotspot
           </div>
-          {contextMenu.node.children.length > 0 && (
+          {getLinkedNodes(graph, contextMenu.node.id).length > 0 && (
             <>
               <div className="menu-divider"></div>
               <div className="menu-header">Link attached image</div>
-              {contextMenu.node.children.map((child) => (
+              {getLinkedNodes(graph, contextMenu.node.id).map((target) => (
                 <div
                   className="menu-item"
-                  key={child.id}
-                  onClick={() => handleLinkImage(child)}
+                  key={target.id}
+                  onClick={() => handleLinkImage(target)}
                 >
-                  Link {child.label}
+                  Link {target.label}
                 </div>
               ))}
             </>
           )}
+          <div className="menu-divider"></div>
+          <div className="menu-header">Projection</div>
+          {(
+            Object.entries(PROJECTION_LABELS) as [ProjectionType, string][]
+          ).map(([projection, label]) => (
+            <div
+              className="menu-item"
+              key={projection}
+              onClick={() => handleSetProjection(projection)}
+            >
+              {label}
+              {(contextMenu.node.projection ?? "equirectangular") ===
+                projection && " (current)"}
+            </div>
+          ))}
+          <div className="menu-divider"></div>
+          <div className="menu-item" onClick={handleRenameScene}>
+            Rename
+          </div>
+          <div className="menu-item" onClick={handleReplaceImage}>
+            Replace image
+          </div>
+          <div className="menu-item danger" onClick={handleDeleteScene}>
+            Delete scene
+          </div>
         </div>
       )}
 
@@ -396,7 +964,10 @@ export function ImageTree() {
                       className="panorama-item"
                       onClick={() => handleSelectPanorama(pano)}
                     >
-                      <img src={pano.imageUrl} alt={pano.name} />
+                      <img
+                        src={pano.thumbnailUrl ?? pano.imageUrl}
+                        alt={pano.name}
+                      />
                       <span>{pano.name}</span>
                     </div>
                   ))}
@@ -428,15 +999,20 @@ export function ImageTree() {
       )}
 
       {/* Panorama Viewer */}
-      {viewingImage && rootNode && (
+      {viewingNode && (
         <PanoramaViewer
-          imageUrl={viewingImage.imageUrl}
-          currentNode={viewingImage}
-          rootNode={rootNode}
+          imageUrl={viewingNode.imageUrl}
+          currentNode={viewingNode}
+          graph={graph}
           onClose={handleViewerClose}
           onSaveHotspot={handleSaveHotspot}
+          onUpdateHotspot={handleUpdateHotspot}
+          onDeleteHotspot={handleDeleteHotspot}
+          onUpdateView={handleUpdateView}
           isTourMode={isTourMode}
           onNavigate={handleNavigate}
+          placement={placement}
+          onPlacementDone={handlePlacementDone}
         />
       )}
 
@@ -450,12 +1026,20 @@ export function ImageTree() {
       ) : (
         <div className="tree-wrapper">
           <div className="tree-container">
-            <ImageNode
-              node={rootNode}
-              onAddChild={handleAddChild}
-              onImageClick={handleImageClick}
-              onContextMenu={handleContextMenu}
-            />
+            {layouts.map((layout) => (
+              <ImageNode
+                key={layout.node.id}
+                layout={layout}
+                onAddChild={handleAddChild}
+                onImageClick={handleImageClick}
+                onContextMenu={handleContextMenu}
+                canDrag={canDragNode}
+                canDrop={canDropOnNode}
+                onDragStart={setDraggingNodeId}
+                onDragEnd={() => setDraggingNodeId(null)}
+                onDrop={handleDropOnNode}
+              />
+            ))}
           </div>
         </div>
       )}
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  NO_EDITS,
+  applyEdits,
+  detectHorizon,
+  hasEdits,
+} from "../lib/panoramaEditing";
+import type { BorderMode, PanoramaEdits } from "../lib/panoramaEditing";
+import { editPanorama } from "../lib/stitcher";
+import "./PanoramaEditor.css";
+
+interface PanoramaEditorProps {
+  panorama: Blob;
+  // Called with the edited panorama, or the original if nothing changed
+  onDone: (panorama: Blob) => void;
+}
+
+// Edits are previewed at this width; the full-size image is only edited
+// once they're applied
+const PREVIEW_WIDTH = 1024;
+
+async function loadPreview(panorama: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(panorama);
+  const width = Math.min(PREVIEW_WIDTH, bitmap.width);
+  const height = Math.round((width * bitmap.height) / bitmap.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+}
+
+function drawImage(canvas: HTMLCanvasElement | null, image: ImageData) {
+  if (!canvas) return;
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")!.putImageData(image, 0, 0);
+}
+
+export function PanoramaEditor({ panorama, onDone }: PanoramaEditorProps) {
+  const [preview, setPreview] = useState<ImageData | null>(null);
+  const [edits, setEdits] = useState<PanoramaEdits>(NO_EDITS);
+  // Where the before/after divider sits, in percent of the width
+  const [split, setSplit] = useState(50);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState("");
+  const beforeRef = useRef<HTMLCanvasElement>(null);
+  const afterRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPreview(panorama).then(
+      (image) => {
+        if (!cancelled) setPreview(image);
+      },
+      (err) => console.error("Failed to load the panorama:", err)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [panorama]);
+
+  // Stop applying edits if the creator closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (preview) drawImage(beforeRef.current, preview);
+  }, [preview]);
+
+  useEffect(() => {
+    if (preview) drawImage(afterRef.current, applyEdits(preview, edits));
+  }, [preview, edits]);
+
+  const update = (changes: Partial<PanoramaEdits>) =>
+    setEdits((current) => ({ ...current, ...changes }));
+
+  const autoLevel = () => {
+    if (!preview) return;
+    const level = detectHorizon(preview);
+    if (!level) {
+      alert(
+        "Couldn't find enough vertical lines to level the horizon - adjust pitch and roll by hand instead"
+      );
+      return;
+    }
+    update(level);
+  };
+
+  const apply = async () => {
+    if (!hasEdits(edits)) {
+      onDone(panorama);
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setApplying(true);
+    try {
+      const edited = await editPanorama(panorama, edits, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      onDone(edited);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Failed to edit the panorama:", error);
+        alert(`Error: ${(error as Error).message}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setApplying(false);
+    }
+  };
+
+  const angleInput = (
+    label: string,
+    key: "yaw" | "pitch" | "roll",
+    limit: number
+  ) => (
+    <label className="editor-setting">
+      <span>{label}</span>
+      <input
+        type="range"
+        min={-limit}
+        max={limit}
+        step={0.1}
+        value={edits[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        disabled={applying}
+      />
+      <input
+        type="number"
+        min={-limit}
+        max={limit}
+        step={0.1}
+        value={edits[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        disabled={applying}
+      />
+      °
+    </label>
+  );
+
+  return (
+    <div className="panorama-editor">
+      <h3>Panorama Created!</h3>
+      <p className="editor-hint">
+        Level the horizon, pick where the tour starts and tidy up the edges
+        before saving.
+      </p>
+
+      <div className="editor-compare">
+        <canvas ref={beforeRef} className="editor-canvas" />
+        <canvas
+          ref={afterRef}
+          className="editor-canvas editor-after"
+          style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+        />
+        <div className="editor-divider" style={{ left: `${split}%` }} />
+        {/* The horizon should sit on this line once levelled */}
+        <div className="editor-horizon" />
+        {!preview && <div className="editor-loading">Loading preview...</div>}
+      </div>
+      <label className="editor-split">
+        <span>Before</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={split}
+          onChange={(e) => setSplit(Number(e.target.value))}
+        />
+        <span>After</span>
+      </label>
+
+      {angleInput("Starting heading", "yaw", 180)}
+      {angleInput("Pitch", "pitch", 30)}
+      {angleInput("Roll", "roll", 30)}
+
+      <label className="editor-setting">
+        <span>Uncovered areas</span>
+        <select
+          value={edits.borders}
+          onChange={(e) => update({ borders: e.target.value as BorderMode })}
+          disabled={applying}
+        >
+          <option value="keep">Leave transparent</option>
+          <option value="crop">Crop to the covered rectangle</option>
+          <option value="fill">Fill with surrounding colours</option>
+        </select>
+      </label>
+
+      <div className="editor-tools">
+        <button
+          onClick={autoLevel}
+          disabled={!preview || applying}
+          className="editor-tool-btn"
+        >
+          Auto Level
+        </button>
+        <button
+          onClick={() => setEdits(NO_EDITS)}
+          disabled={!hasEdits(edits) || applying}
+          className="editor-tool-btn"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="editor-actions">
+        <button
+          onClick={() => onDone(panorama)}
+          disabled={applying}
+          className="editor-skip-btn"
+        >
+          Use Original
+        </button>
+        <button onClick={apply} disabled={applying} className="stitch-btn">
+          {applying ? (
+            <>
+              <div className="spinner small"></div>
+              <span>{progress}</span>
+            </>
+          ) : (
+            "Apply & Continue"
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  describePanorama,
+  findPanoramaUsage,
+  formatFileSize,
+  hasDetails,
+  matchesSearch,
+} from "../lib/panoramaLibrary";
+import type { PanoramaDetails } from "../lib/panoramaLibrary";
+import type { TourGraph } from "../lib/tourGraph";
+import type { SavedPanorama } from "./ImageTree";
+import "./PanoramaLibrary.css";
+
+interface PanoramaLibraryProps {
+  panoramas: SavedPanorama[];
+  graph: TourGraph;
+  onRename: (panoramaId: string, name: string) => void;
+  // `cascade` also deletes the scenes showing the panorama
+  onDelete: (panoramaId: string, cascade: boolean) => void;
+  onClose: () => void;
+}
+
+// Size, file size and creation date, as far as they're known
+function describeMeta(panorama: SavedPanorama, details?: PanoramaDetails) {
+  const parts = details
+    ? [`${details.width} × ${details.height}px`, formatFileSize(details.size)]
+    : [];
+  if (panorama.createdAt !== undefined) {
+    parts.push(`Created ${new Date(panorama.createdAt).toLocaleString()}`);
+  }
+  return parts.join(" · ");
+}
+
+export function PanoramaLibrary({
+  panoramas,
+  graph,
+  onRename,
+  onDelete,
+  onClose,
+}: PanoramaLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState("");
+  // The in-use panorama whose deletion is waiting to be confirmed
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // Details worked out for panoramas saved without them. They're only kept
+  // while the library is open, so looking never adds to the undo history.
+  const [generated, setGenerated] = useState<Record<string, PanoramaDetails>>(
+    {}
+  );
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const missing = panoramas.filter(
+      (pano) => !hasDetails(pano) && !requestedRef.current.has(pano.id)
+    );
+    missing.forEach((pano) => requestedRef.current.add(pano.id));
+    (async () => {
+      for (const pano of missing) {
+        try {
+          const details = await describePanorama(pano.imageUrl);
+          setGenerated((prev) => ({ ...prev, [pano.id]: details }));
+        } catch (err) {
+          console.error(`Failed to read panorama "${pano.name}":`, err);
+        }
+      }
+    })();
+  }, [panoramas]);
+
+  const handleStartRename = (panorama: SavedPanorama) => {
+    setRenamingId(panorama.id);
+    setRenameInput(panorama.name);
+  };
+
+  const handleRename = () => {
+    if (!renamingId) return;
+    const name = renameInput.trim();
+    if (name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleRename();
+    } else if (e.key === "Escape") {
+      setRenamingId(null);
+    }
+  };
+
+  const handleDelete = (panorama: SavedPanorama) => {
+    if (findPanoramaUsage(graph, panorama).length > 0) {
+      setDeletingId(panorama.id);
+    } else {
+      onDelete(panorama.id, false);
+    }
+  };
+
+  const visible = panoramas.filter((pano) => matchesSearch(pano, query));
+
+  return (
+    <div className="modal-overlay">
+      <div className="panorama-library">
+        <div className="panorama-library-header">
+          <h3>Panorama Library</h3>
+          <button className="close-selector-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="panorama-library-search">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or source photo..."
+            className="panorama-search-input"
+            autoFocus
+          />
+        </div>
+
+        <div className="panorama-library-list">
+          {panoramas.length === 0 && (
+            <p className="panorama-library-empty">
+              Panoramas you create are kept here.
+            </p>
+          )}
+          {panoramas.length > 0 && visible.length === 0 && (
+            <p className="panorama-library-empty">
+              No panoramas match "{query.trim()}".
+            </p>
+          )}
+          {visible.map((pano) => {
+            const details = hasDetails(pano) ? pano : generated[pano.id];
+            const usage = findPanoramaUsage(graph, pano);
+            return (
+              <div key={pano.id} className="panorama-library-item">
+                <div className="panorama-thumbnail">
+                  {details ? (
+                    <img src={details.thumbnailUrl} alt={pano.name} />
+                  ) : (
+                    <span>Loading...</span>
+                  )}
+                </div>
+
+                <div className="panorama-library-info">
+                  {renamingId === pano.id ? (
+                    <input
+                      type="text"
+                      value={renameInput}
+                      onChange={(e) => setRenameInput(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      onBlur={handleRename}
+                      className="panorama-search-input"
+                      autoFocus
+                    />
+                  ) : (
+                    <span className="panorama-library-name">{pano.name}</span>
+                  )}
+                  <span className="panorama-library-meta">
+                    {describeMeta(pano, details)}
+                  </span>
+                  {pano.sourceImages && pano.sourceImages.length > 0 && (
+                    <span
+                      className="panorama-library-meta"
+                      title={pano.sourceImages.join("\n")}
+                    >
+                      From {pano.sourceImages.length} photos:{" "}
+                      {pano.sourceImages.join(", ")}
+                    </span>
+                  )}
+                  <span
+                    className={`panorama-library-usage ${
+                      usage.length > 0 ? "in-use" : ""
+                    }`}
+                  >
+                    {usage.length > 0
+                      ? `Used by ${usage.map((node) => node.label).join(", ")}`
+                      : "Not used in the tour"}
+                  </span>
+
+                  {deletingId === pano.id && (
+                    <div className="panorama-delete-confirm">
+                      <span>
+                        {usage.length === 1
+                          ? "1 scene shows this panorama"
+                          : `${usage.length} scenes show this panorama`}
+                        . Deleting it deletes{" "}
+                        {usage.length === 1 ? "that scene" : "those scenes"} and
+                        their hotspots too.
+                      </span>
+                      <div className="panorama-library-actions">
+                        <button onClick={() => setDeletingId(null)}>
+                          Keep
+                        </button>
+                        <button
+                          onClick={() => {
+                            onDelete(pano.id, true);
+                            setDeletingId(null);
+                          }}
+                          className="panorama-delete-btn"
+                        >
+                          Delete with scenes
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="panorama-library-actions">
+                  <button onClick={() => handleStartRename(pano)}>
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleDelete(pano)}
+                    disabled={deletingId === pano.id}
+                    className="panorama-delete-btn"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
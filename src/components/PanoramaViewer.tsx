@@ -1,41 +1,83 @@
 import { useEffect, useRef, useState } from "react";
-import * as THREE from "three";
-import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import type { ImageNodeData } from "./ImageNode";
+import type * as THREE from "three";
+import { getLinkedNodes, getNodes, hasLink } from "../lib/tourGraph";
+import type {
+  Hotspot,
+  ImageNodeData,
+  SceneView,
+  TourGraph,
+} from "../lib/tourGraph";
+import { HotspotInspector } from "./HotspotInspector";
+import { HotspotInfoPanel } from "./HotspotInfoPanel";
+import { SceneViewPanel } from "./SceneViewPanel";
+import { TOUR_AUTO_ROTATE_SPEED, isEditable } from "../lib/panoramaControls";
+import { createPanoramaView } from "../lib/panoramaView";
+import { storedTiles } from "../lib/tileStore";
+import type { PanoramaView, SceneTransition } from "../lib/panoramaView";
 import "./PanoramaViewer.css";
 import "./ContextMenu.css";
 
+// A hotspot waiting to be dropped by the next click on the sphere
+export type HotspotPlacement =
+  | { type: "info" }
+  | { type: "link"; targetNode: ImageNodeData };
+
 interface PanoramaViewerProps {
   imageUrl: string;
   currentNode: ImageNodeData;
-  rootNode: ImageNodeData;
+  graph: TourGraph;
   onClose: () => void;
   onSaveHotspot: (
     position: THREE.Vector3,
     label: string,
     targetNodeId?: string
   ) => void;
+  onUpdateHotspot: (hotspot: Hotspot) => void;
+  onDeleteHotspot: (hotspotId: string) => void;
+  onUpdateView?: (view: SceneView) => void;
   isTourMode?: boolean;
   onNavigate?: (targetNodeId: string) => void;
+  placement?: HotspotPlacement | null;
+  onPlacementDone?: () => void;
 }
 
 export function PanoramaViewer({
   imageUrl,
   currentNode,
-  rootNode,
+  graph,
   onClose,
   onSaveHotspot,
+  onUpdateHotspot,
+  onDeleteHotspot,
+  onUpdateView,
   isTourMode = false,
   onNavigate,
+  placement = null,
+  onPlacementDone,
 }: PanoramaViewerProps) {
-  console.log("PanoramaViewer rendering with image:", imageUrl ? "Yes" : "No");
   const containerRef = useRef<HTMLDivElement>(null);
-  const requestRef = useRef<number>(0);
-  const controlsRef = useRef<OrbitControls | null>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const hotspotsRef = useRef<THREE.Mesh[]>([]);
+  const viewRef = useRef<PanoramaView | null>(null);
+  // The scene on screen, to tell a move to another scene from an edit
+  const shownRef = useRef<ImageNodeData | null>(null);
+  // How to reach the scene a clicked link leads to
+  const transitionRef = useRef<SceneTransition | null>(null);
+  const dragRef = useRef<{
+    hotspot: Hotspot;
+    position: THREE.Vector3 | null;
+  } | null>(null);
+  // Where the last press started, so a drag to look around isn't a click
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+  const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(
+    null
+  );
+  const [infoHotspotId, setInfoHotspotId] = useState<string | null>(null);
+  const [showViewSettings, setShowViewSettings] = useState(false);
+  const infoHotspot = currentNode.hotspots.find(
+    (hotspot) => hotspot.id === infoHotspotId
+  );
+  const selectedHotspot = isTourMode
+    ? undefined
+    : currentNode.hotspots.find((hotspot) => hotspot.id === selectedHotspotId);
 
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -43,198 +85,195 @@ export function PanoramaViewer({
     position: THREE.Vector3;
   } | null>(null);
 
+  // The view, and its renderer, last as long as the viewer; changing scene
+  // only swaps what it shows
   useEffect(() => {
     if (!containerRef.current) return;
-
-    // Clear any existing children to prevent duplicates (React Strict Mode)
-    while (containerRef.current.firstChild) {
-      containerRef.current.removeChild(containerRef.current.firstChild);
-    }
-
-    // Scene
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x222222);
-    sceneRef.current = scene;
-
-    const camera = new THREE.PerspectiveCamera(
-      75,
-      window.innerWidth / window.innerHeight,
-      0.1,
-      1000
-    );
-    camera.position.set(0, 0, 0.1);
-    cameraRef.current = camera;
-
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    containerRef.current.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    // Controls
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableZoom = true; // Enable zoom
-    controls.enablePan = false;
-    controls.rotateSpeed = -0.5;
-    controls.enableDamping = true; // Add smooth damping
-    controls.dampingFactor = 0.05;
-    controlsRef.current = controls;
-
-    // Sphere
-    const sphereGeom = new THREE.SphereGeometry(500, 60, 40);
-    // Invert the geometry on the x-axis so that all of the faces point inward
-    sphereGeom.scale(-1, 1, 1);
-
-    const textureLoader = new THREE.TextureLoader();
-
-    const texture = textureLoader.load(
+    const options = {
       imageUrl,
-      () => console.log("Texture loaded"),
-      undefined,
-      (err) => console.error("Texture load error:", err)
-    );
-    texture.colorSpace = THREE.SRGBColorSpace;
-
-    const sphereMat = new THREE.MeshBasicMaterial({
-      map: texture,
-    });
-
-    const sphere = new THREE.Mesh(sphereGeom, sphereMat);
-    scene.add(sphere);
-
-    // Render Hotspots
-    hotspotsRef.current = [];
-    if (currentNode.hotspots) {
-      currentNode.hotspots.forEach((hotspot) => {
-        // Create a ring/torus for links, small sphere for info
-        if (hotspot.type === "link") {
-          // Outer ring
-          const ringGeometry = new THREE.TorusGeometry(12, 2, 16, 32);
-          const ringMaterial = new THREE.MeshBasicMaterial({
-            color: 0x22c55e,
-            transparent: true,
-            opacity: 0.9,
-          });
-          const ring = new THREE.Mesh(ringGeometry, ringMaterial);
-          ring.position.copy(hotspot.position);
-          ring.lookAt(0, 0, 0);
-          ring.userData = { hotspot };
-          scene.add(ring);
-          hotspotsRef.current.push(ring);
-
-          // Inner pulsing dot
-          const dotGeometry = new THREE.SphereGeometry(5, 16, 16);
-          const dotMaterial = new THREE.MeshBasicMaterial({
-            color: 0x4ade80,
-            transparent: true,
-            opacity: 0.8,
-          });
-          const dot = new THREE.Mesh(dotGeometry, dotMaterial);
-          dot.position.copy(hotspot.position);
-          dot.userData = { hotspot };
-          scene.add(dot);
-          hotspotsRef.current.push(dot);
-        } else {
-          // Info hotspot - blue diamond shape
-          const geometry = new THREE.OctahedronGeometry(8);
-          const material = new THREE.MeshBasicMaterial({
-            color: 0x3b82f6,
-            transparent: true,
-            opacity: 0.85,
-          });
-          const mesh = new THREE.Mesh(geometry, material);
-          mesh.position.copy(hotspot.position);
-          mesh.userData = { hotspot };
-          scene.add(mesh);
-          hotspotsRef.current.push(mesh);
+      projection: currentNode.projection,
+      hotspots: currentNode.hotspots ?? [],
+      area: currentNode.area,
+      initialHeading: currentNode.initialHeading,
+      view: currentNode.view,
+    };
+    const shown = shownRef.current;
+    shownRef.current = currentNode;
+    const transition = transitionRef.current;
+    transitionRef.current = null;
+
+    const view = viewRef.current;
+    if (!view) {
+      viewRef.current = createPanoramaView(
+        containerRef.current,
+        options,
+        {},
+        storedTiles
+      );
+    } else if (
+      shown?.id === currentNode.id &&
+      shown.imageUrl === currentNode.imageUrl &&
+      shown.projection === currentNode.projection &&
+      shown.area === currentNode.area
+    ) {
+      view.updateScene(options);
+    } else {
+      // Anything but a followed link, like a replaced image, just fades
+      view.showScene(
+        options,
+        transition ?? {
+          type: shown?.id === currentNode.id ? "none" : "crossfade",
         }
-      });
+      );
     }
+  }, [imageUrl, currentNode]);
+
+  useEffect(
+    () => () => {
+      viewRef.current?.dispose();
+      viewRef.current = null;
+      shownRef.current = null;
+    },
+    []
+  );
 
-    // Animation Loop
-    const animate = () => {
-      requestRef.current = requestAnimationFrame(animate);
+  // Tours turn by themselves when left alone, like published ones
+  useEffect(() => {
+    viewRef.current?.controls.setAutoRotate(
+      isTourMode ? TOUR_AUTO_ROTATE_SPEED : 0
+    );
+  }, [isTourMode]);
 
-      controls.update();
-      renderer.render(scene, camera);
-    };
-    animate();
+  // Linked scenes load in the background so following a link is instant
+  useEffect(() => {
+    const targets = getLinkedNodes(graph, currentNode.id);
+    viewRef.current?.preload(targets);
+  }, [graph, currentNode.id]);
 
-    // Resize
-    const handleResize = () => {
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(window.innerWidth, window.innerHeight);
-    };
-    window.addEventListener("resize", handleResize);
+  // Highlight the selected hotspot, including after the scene is rebuilt
+  useEffect(() => {
+    viewRef.current?.setSelectedHotspot(selectedHotspot?.id ?? null);
+  }, [selectedHotspot, imageUrl, currentNode]);
 
-    // Cleanup
-    return () => {
-      window.removeEventListener("resize", handleResize);
-      cancelAnimationFrame(requestRef.current);
+  // Escape abandons a pending placement
+  useEffect(() => {
+    if (!placement) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onPlacementDone?.();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [placement, onPlacementDone]);
 
-      // Check if the renderer's domElement is still a child of the container
-      if (
-        containerRef.current &&
-        renderer.domElement.parentNode === containerRef.current
-      ) {
-        containerRef.current.removeChild(renderer.domElement);
+  // Delete removes the selected hotspot, Escape deselects it
+  useEffect(() => {
+    if (!selectedHotspot) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (isEditable(e.target)) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        onDeleteHotspot(selectedHotspot.id);
+        setSelectedHotspotId(null);
+      } else if (e.key === "Escape") {
+        setSelectedHotspotId(null);
       }
-
-      sphereGeom.dispose();
-      sphereMat.dispose();
-      texture.dispose();
-
-      renderer.dispose();
     };
-  }, [imageUrl, currentNode]); // Re-run if currentNode changes (to update hotspots)
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [selectedHotspot, onDeleteHotspot]);
+
+  // Dragging the selected hotspot moves it along the sphere surface. This
+  // runs in the capture phase so the camera controls never see the drag.
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pressRef.current = { x: event.clientX, y: event.clientY };
+    if (isTourMode || !selectedHotspot || event.button !== 0) return;
+    const hotspot = viewRef.current?.pickHotspot(event.clientX, event.clientY);
+    if (hotspot?.id !== selectedHotspot.id) return;
+
+    dragRef.current = { hotspot: selectedHotspot, position: null };
+    viewRef.current?.setControlsEnabled(false);
+    containerRef.current?.setPointerCapture(event.pointerId);
+  };
 
-  const handleLeftClick = (event: React.MouseEvent) => {
-    if (!containerRef.current || !cameraRef.current) return;
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = viewRef.current?.pickSurface(event.clientX, event.clientY);
+    if (point) {
+      drag.position = point;
+      viewRef.current?.moveHotspot(drag.hotspot.id, point);
+    }
+  };
 
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    const y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    viewRef.current?.setControlsEnabled(true);
+    containerRef.current?.releasePointerCapture(event.pointerId);
+    if (drag.position) {
+      const { x, y, z } = drag.position;
+      onUpdateHotspot({ ...drag.hotspot, position: { x, y, z } });
+    }
+  };
 
-    const raycaster = new THREE.Raycaster();
-    raycaster.setFromCamera(new THREE.Vector2(x, y), cameraRef.current);
+  const handleLeftClick = (event: React.MouseEvent) => {
+    if (placement) {
+      const press = pressRef.current;
+      if (
+        press &&
+        Math.hypot(event.clientX - press.x, event.clientY - press.y) > 5
+      ) {
+        return;
+      }
+      const point = viewRef.current?.pickSurface(event.clientX, event.clientY);
+      if (!point) return;
+      if (placement.type === "link") {
+        const { targetNode } = placement;
+        onSaveHotspot(point, targetNode.label, targetNode.id);
+      } else {
+        onSaveHotspot(point, "New Hotspot");
+      }
+      onPlacementDone?.();
+      return;
+    }
 
-    const intersects = raycaster.intersectObjects(hotspotsRef.current);
+    const hotspot = viewRef.current?.pickHotspot(event.clientX, event.clientY);
 
-    if (intersects.length > 0) {
-      const hotspot = intersects[0].object.userData.hotspot;
+    // In edit mode clicking selects a hotspot for the inspector
+    if (!isTourMode) {
+      setSelectedHotspotId(hotspot?.id ?? null);
+      return;
+    }
+    if (!hotspot) return;
 
-      if (hotspot.type === "link" && hotspot.targetNodeId && onNavigate) {
-        onNavigate(hotspot.targetNodeId);
-      } else {
-        console.log("Info hotspot:", hotspot.label);
-      }
+    if (hotspot.type === "link" && hotspot.targetNodeId && onNavigate) {
+      followLink(hotspot);
+    } else {
+      setInfoHotspotId(hotspot.id);
     }
   };
 
+  const followLink = (hotspot: Hotspot) => {
+    if (!hotspot.targetNodeId || !onNavigate) return;
+    transitionRef.current = {
+      type: hotspot.transition ?? "crossfade",
+      target: hotspot.position,
+      arrivalHeading: hotspot.arrivalHeading,
+    };
+    onNavigate(hotspot.targetNodeId);
+  };
+
   const handleRightClick = (event: React.MouseEvent) => {
     event.preventDefault();
-    if (isTourMode) return;
-
-    if (!containerRef.current || !cameraRef.current) return;
-
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    const y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-
-    const raycaster = new THREE.Raycaster();
-    raycaster.setFromCamera(new THREE.Vector2(x, y), cameraRef.current);
-
-    // Raycast against the sphere (which is the first child of the scene)
-    if (sceneRef.current) {
-      const intersects = raycaster.intersectObjects(sceneRef.current.children);
-      if (intersects.length > 0) {
-        const point = intersects[0].point;
-        setContextMenu({
-          x: event.clientX,
-          y: event.clientY,
-          position: point,
-        });
-      }
+    if (isTourMode || placement) return;
+
+    const point = viewRef.current?.pickSurface(event.clientX, event.clientY);
+    if (point) {
+      setContextMenu({
+        x: event.clientX,
+        y: event.clientY,
+        position: point,
+      });
     }
   };
 
@@ -250,28 +289,10 @@ export function PanoramaViewer({
     setContextMenu(null);
   };
 
-  // Find parent of current node in the tree
-  const findParent = (
-    node: ImageNodeData,
-    targetId: string,
-    parent: ImageNodeData | null = null
-  ): ImageNodeData | null => {
-    if (node.id === targetId) return parent;
-    for (const child of node.children) {
-      const found = findParent(child, targetId, node);
-      if (found) return found;
-    }
-    return null;
-  };
-
-  const parentNode = findParent(rootNode, currentNode.id);
-
-  // Get all linkable nodes (parent + children)
-  const linkableNodes: ImageNodeData[] = [];
-  if (parentNode) {
-    linkableNodes.push(parentNode);
-  }
-  linkableNodes.push(...currentNode.children);
+  // Any other scene in the tour can be a link target
+  const linkableNodes = getNodes(graph)
+    .filter((node) => node.id !== currentNode.id)
+    .sort((a, b) => a.label.localeCompare(b.label));
 
   // Close context menu on click outside
   useEffect(() => {
@@ -287,11 +308,69 @@ export function PanoramaViewer({
       </button>
       <div
         ref={containerRef}
-        className="panorama-container"
+        className={`panorama-container ${placement ? "placing" : ""}`}
         onContextMenu={handleRightClick}
         onClick={handleLeftClick}
+        onPointerDownCapture={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
       />
 
+      {placement && (
+        <div className="placement-banner">
+          <span>
+            {placement.type === "link"
+              ? `Click where the link to ${placement.targetNode.label} should go`
+              : "Click where the info hotspot should go"}
+          </span>
+          <button onClick={onPlacementDone}>Cancel</button>
+        </div>
+      )}
+
+      {selectedHotspot && (
+        <HotspotInspector
+          key={selectedHotspot.id}
+          hotspot={selectedHotspot}
+          linkTargets={linkableNodes}
+          onChange={onUpdateHotspot}
+          onDelete={() => {
+            onDeleteHotspot(selectedHotspot.id);
+            setSelectedHotspotId(null);
+          }}
+          onNavigate={onNavigate && (() => followLink(selectedHotspot))}
+          onPreview={() => setInfoHotspotId(selectedHotspot.id)}
+          onClose={() => setSelectedHotspotId(null)}
+        />
+      )}
+
+      {!isTourMode &&
+        onUpdateView &&
+        (showViewSettings ? (
+          <SceneViewPanel
+            key={currentNode.id}
+            view={currentNode.view ?? {}}
+            partial={currentNode.area !== undefined}
+            getCurrentView={() => viewRef.current?.getView() ?? null}
+            onChange={onUpdateView}
+            onClose={() => setShowViewSettings(false)}
+          />
+        ) : (
+          <button
+            className="view-settings-btn"
+            onClick={() => setShowViewSettings(true)}
+          >
+            View settings
+          </button>
+        ))}
+
+      {infoHotspot && (
+        <HotspotInfoPanel
+          key={infoHotspot.id}
+          hotspot={infoHotspot}
+          onClose={() => setInfoHotspotId(null)}
+        />
+      )}
+
       {contextMenu && (
         <div
           className="context-menu"
@@ -312,7 +391,7 @@ export function PanoramaViewer({
                   onClick={() => handleLinkImage(node)}
                 >
                   Link {node.label}{" "}
-                  {node.id === parentNode?.id ? "(parent)" : ""}
+                  {hasLink(graph, currentNode.id, node.id) ? "(linked)" : ""}
                 </div>
               ))}
             </>
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_PROJECT_NAME,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+} from "../lib/projects";
+import type { ProjectSummary } from "../lib/projects";
+import "./ProjectPicker.css";
+
+interface ProjectPickerProps {
+  currentProjectId: string | null;
+  onOpen: (projectId: string) => void;
+  onRenamed: (project: ProjectSummary) => void;
+  onDeleted: (projectId: string) => void;
+  onClose: () => void;
+}
+
+export function ProjectPicker({
+  currentProjectId,
+  onOpen,
+  onRenamed,
+  onDeleted,
+  onClose,
+}: ProjectPickerProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    listProjects()
+      .then(setProjects)
+      .catch((err) => setError(err.message));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const project = await createProject(
+        newName.trim() || DEFAULT_PROJECT_NAME
+      );
+      setNewName("");
+      onOpen(project.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameInput(project.name);
+  };
+
+  const handleRename = async () => {
+    if (!renamingId) return;
+    const name = renameInput.trim();
+    if (!name) {
+      setRenamingId(null);
+      return;
+    }
+    try {
+      const renamed = await renameProject(renamingId, name);
+      setRenamingId(null);
+      onRenamed(renamed);
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDuplicate = async (project: ProjectSummary) => {
+    try {
+      await duplicateProject(project.id);
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleRename();
+    } else if (e.key === "Escape") {
+      setRenamingId(null);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="project-picker">
+        <div className="project-picker-header">
+          <h3>Your Tours</h3>
+          <button className="close-selector-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="project-create">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder="New tour name..."
+            className="project-name-input"
+          />
+          <button onClick={handleCreate} className="project-create-btn">
+            New Tour
+          </button>
+        </div>
+
+        {error && <div className="project-error">{error}</div>}
+
+        <div className="project-list">
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className={`project-item ${
+                project.id === currentProjectId ? "current" : ""
+              }`}
+            >
+              {renamingId === project.id ? (
+                <input
+                  type="text"
+                  value={renameInput}
+                  onChange={(e) => setRenameInput(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={handleRename}
+                  className="project-name-input"
+                  autoFocus
+                />
+              ) : (
+                <div className="project-info" onClick={() => onOpen(project.id)}>
+                  <span className="project-name">{project.name}</span>
+                  <span className="project-date">
+                    Edited {new Date(project.updatedAt).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              <div className="project-actions">
+                <button onClick={() => handleStartRename(project)}>Rename</button>
+                <button onClick={() => handleDuplicate(project)}>
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  className="project-delete-btn"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import {
+  DEFAULT_FOV,
+  DEFAULT_MAX_FOV,
+  DEFAULT_MIN_FOV,
+  validateSceneView,
+} from "../lib/sceneView";
+import type { SceneView } from "../lib/tourGraph";
+import "./SceneViewPanel.css";
+
+type LimitField = "minFov" | "maxFov" | "minPitch" | "maxPitch";
+
+interface SceneViewPanelProps {
+  view: SceneView;
+  // Whether the scene's image only covers part of the sphere
+  partial: boolean;
+  getCurrentView: () => { yaw: number; pitch: number; fov: number } | null;
+  onChange: (view: SceneView) => void;
+  onClose: () => void;
+}
+
+const LIMIT_FIELDS: { field: LimitField; label: string }[] = [
+  { field: "minFov", label: "Narrowest view (zoomed in)" },
+  { field: "maxFov", label: "Widest view (zoomed out)" },
+  { field: "minPitch", label: "Lowest pitch" },
+  { field: "maxPitch", label: "Highest pitch" },
+];
+
+function limitInputs(view: SceneView): Record<LimitField, string> {
+  return {
+    minFov: view.minFov?.toString() ?? "",
+    maxFov: view.maxFov?.toString() ?? "",
+    minPitch: view.minPitch?.toString() ?? "",
+    maxPitch: view.maxPitch?.toString() ?? "",
+  };
+}
+
+export function SceneViewPanel({
+  view,
+  partial,
+  getCurrentView,
+  onChange,
+  onClose,
+}: SceneViewPanelProps) {
+  // Limits are committed on blur/Enter so half-typed numbers aren't checked
+  const [inputs, setInputs] = useState(() => limitInputs(view));
+
+  const placeholders: Record<LimitField, string> = {
+    minFov: `${DEFAULT_MIN_FOV}°`,
+    maxFov: `${DEFAULT_MAX_FOV}°`,
+    minPitch: partial ? "Edge of the image" : "-90°",
+    maxPitch: partial ? "Edge of the image" : "90°",
+  };
+
+  const update = (changes: SceneView) => {
+    const next = { ...view, ...changes };
+    const error = validateSceneView(next);
+    if (error) {
+      alert(error);
+      setInputs(limitInputs(view));
+      return;
+    }
+    onChange(next);
+  };
+
+  const commitLimit = (field: LimitField) => {
+    const text = inputs[field].trim();
+    const value = text ? Number(text) : undefined;
+    if (value === view[field]) return;
+    if (value !== undefined && !Number.isFinite(value)) {
+      setInputs(limitInputs(view));
+      return;
+    }
+    update({ [field]: value });
+  };
+
+  const handleSetStart = () => {
+    const current = getCurrentView();
+    if (!current) return;
+    update({
+      initialYaw: current.yaw,
+      initialPitch: current.pitch,
+      initialFov: current.fov,
+    });
+  };
+
+  const hasStart =
+    view.initialYaw !== undefined ||
+    view.initialPitch !== undefined ||
+    view.initialFov !== undefined;
+
+  return (
+    <div
+      className="scene-view-panel"
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.stopPropagation()}
+    >
+      <div className="scene-view-header">
+        <h4>View settings</h4>
+        <button className="scene-view-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <div className="scene-view-section">
+        <span className="scene-view-label">Starting view</span>
+        <span className="scene-view-value">
+          {hasStart
+            ? `Yaw ${view.initialYaw ?? 0}°, pitch ${view.initialPitch ?? 0}°, ` +
+              `FOV ${view.initialFov ?? DEFAULT_FOV}°`
+            : "The image's default heading"}
+        </span>
+        <div className="scene-view-buttons">
+          <button onClick={handleSetStart}>Set current view as start</button>
+          <button
+            onClick={() =>
+              onChange({
+                ...view,
+                initialYaw: undefined,
+                initialPitch: undefined,
+                initialFov: undefined,
+              })
+            }
+            disabled={!hasStart}
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {LIMIT_FIELDS.map(({ field, label }) => (
+        <label key={field} className="scene-view-field">
+          <span>{label}</span>
+          <input
+            type="number"
+            value={inputs[field]}
+            onChange={(e) =>
+              setInputs((prev) => ({ ...prev, [field]: e.target.value }))
+            }
+            onBlur={() => commitLimit(field)}
+            onKeyDown={(e) => e.key === "Enter" && commitLimit(field)}
+            placeholder={placeholders[field]}
+          />
+        </label>
+      ))}
+      <p className="scene-view-hint">
+        Zoom with the mouse wheel. Leave a limit empty for the default.
+      </p>
+    </div>
+  );
+}
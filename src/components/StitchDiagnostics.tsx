@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  PairReport,
+  PairStatus,
+  StitchReport,
+} from "../lib/stitchDiagnostics";
+import "./StitchDiagnostics.css";
+
+interface StitchDiagnosticsProps {
+  report: StitchReport;
+  // The uploaded photos, in the order they were matched
+  imageUrls: string[];
+}
+
+// Width of each photo in the side-by-side view
+const PANEL_WIDTH = 340;
+
+const STATUS_LABELS: Record<PairStatus, string> = {
+  good: "Good",
+  weak: "Weak",
+  rejected: "Left out",
+  unmatched: "No overlap",
+};
+
+const STATUS_COLORS: Record<PairStatus, string> = {
+  good: "#22c55e",
+  weak: "#f59e0b",
+  rejected: "#ef4444",
+  unmatched: "#ef4444",
+};
+
+const pairKey = (pair: PairReport) => `${pair.from}-${pair.to}`;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+}
+
+export function StitchDiagnostics({
+  report,
+  imageUrls,
+}: StitchDiagnosticsProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Start on the first pair that needs attention
+  const selected =
+    report.pairs.find((pair) => pairKey(pair) === selectedKey) ??
+    report.pairs.find((pair) => pair.status !== "good") ??
+    report.pairs[0];
+
+  const aligned = report.images.filter((image) => image.aligned).length;
+  const leftOut = report.images.flatMap((image, i) =>
+    image.aligned ? [] : [i + 1]
+  );
+
+  const leftUrl = selected && imageUrls[selected.from];
+  const rightUrl = selected && imageUrls[selected.to];
+
+  // Draw both photos side by side with their keypoints and agreeing matches
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !selected || !leftUrl || !rightUrl) return;
+    let cancelled = false;
+
+    const { from, to } = selected;
+    Promise.all([loadImage(leftUrl), loadImage(rightUrl)]).then(
+      ([left, right]) => {
+        if (cancelled) return;
+        const leftScale = PANEL_WIDTH / report.images[from].width;
+        const rightScale = PANEL_WIDTH / report.images[to].width;
+        canvas.width = PANEL_WIDTH * 2;
+        canvas.height = Math.max(
+          report.images[from].height * leftScale,
+          report.images[to].height * rightScale
+        );
+        const ctx = canvas.getContext("2d")!;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(
+          left,
+          0,
+          0,
+          PANEL_WIDTH,
+          report.images[from].height * leftScale
+        );
+        ctx.drawImage(
+          right,
+          PANEL_WIDTH,
+          0,
+          PANEL_WIDTH,
+          report.images[to].height * rightScale
+        );
+
+        ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+        for (const point of report.images[from].keypoints) {
+          ctx.fillRect(point.x * leftScale - 1, point.y * leftScale - 1, 2, 2);
+        }
+        for (const point of report.images[to].keypoints) {
+          ctx.fillRect(
+            PANEL_WIDTH + point.x * rightScale - 1,
+            point.y * rightScale - 1,
+            2,
+            2
+          );
+        }
+
+        ctx.strokeStyle = STATUS_COLORS[selected.status];
+        ctx.lineWidth = 1;
+        for (const match of selected.inlierMatches) {
+          ctx.beginPath();
+          ctx.moveTo(match.from.x * leftScale, match.from.y * leftScale);
+          ctx.lineTo(
+            PANEL_WIDTH + match.to.x * rightScale,
+            match.to.y * rightScale
+          );
+          ctx.stroke();
+        }
+      },
+      (err) => console.error("Failed to draw matches:", err)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [report, selected, leftUrl, rightUrl]);
+
+  return (
+    <div className="stitch-diagnostics">
+      <h3>Overlap report</h3>
+      <p className="diagnostics-summary">
+        {aligned} of {report.images.length} photos fit together
+        {leftOut.length === 1 &&
+          ` - photo ${leftOut[0]} doesn't overlap the others`}
+        {leftOut.length > 1 &&
+          ` - photos ${leftOut.join(", ")} don't overlap the others`}
+      </p>
+
+      {selected ? (
+        <>
+          <canvas ref={canvasRef} className="diagnostics-canvas" />
+          <div className="diagnostics-pairs">
+            {report.pairs.map((pair) => (
+              <button
+                key={pairKey(pair)}
+                className={`diagnostics-pair ${pair.status} ${
+                  pair === selected ? "selected" : ""
+                }`}
+                onClick={() => setSelectedKey(pairKey(pair))}
+              >
+                <span className="pair-label">
+                  {pair.from + 1} ↔ {pair.to + 1}
+                </span>
+                <span>
+                  {pair.inliers}/{pair.matches} matches (
+                  {Math.round(pair.inlierRatio * 100)}%)
+                </span>
+                <span>{pair.error.toFixed(1)}px error</span>
+                <span>{Math.round(pair.overlap * 100)}% overlap</span>
+                <span className="pair-status">
+                  {STATUS_LABELS[pair.status]}
+                </span>
+              </button>
+            ))}
+          </div>
+          {selected.warnings.length > 0 && (
+            <ul className="diagnostics-warnings">
+              {selected.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+        <p className="diagnostics-summary">
+          No two photos share enough features to compare
+        </p>
+      )}
+    </div>
+  );
+}
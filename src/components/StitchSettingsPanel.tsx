@@ -0,0 +1,173 @@
+import type { BlendMode } from "../lib/panoramaBlending";
+import { PRESETS, PRESET_LABELS, findPreset } from "../lib/stitchConfig";
+import type {
+  FeatureDetector,
+  PresetName,
+  StitchConfig,
+  StitchSettings,
+} from "../lib/stitchConfig";
+import "./StitchSettingsPanel.css";
+
+interface StitchSettingsPanelProps {
+  settings: StitchSettings;
+  onChange: (settings: StitchSettings) => void;
+  disabled: boolean;
+}
+
+export function StitchSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: StitchSettingsPanelProps) {
+  const { fov, config } = settings;
+  const preset = findPreset(config);
+
+  const updateConfig = (changes: Partial<StitchConfig>) =>
+    onChange({ fov, config: { ...config, ...changes } });
+
+  const numberInput = (
+    value: number,
+    onValue: (value: number) => void,
+    limits: { min: number; max: number; step?: number }
+  ) => (
+    <input
+      type="number"
+      {...limits}
+      value={value}
+      onChange={(e) => onValue(Number(e.target.value))}
+      disabled={disabled}
+    />
+  );
+
+  return (
+    <div className="stitch-settings">
+      <label className="stitch-setting">
+        <span>Quality</span>
+        <select
+          value={preset ?? "custom"}
+          onChange={(e) =>
+            onChange({ fov, config: PRESETS[e.target.value as PresetName] })
+          }
+          disabled={disabled}
+        >
+          {(Object.keys(PRESETS) as PresetName[]).map((name) => (
+            <option key={name} value={name}>
+              {PRESET_LABELS[name]}
+            </option>
+          ))}
+          {!preset && (
+            <option value="custom" disabled>
+              Custom
+            </option>
+          )}
+        </select>
+      </label>
+
+      <label className="stitch-setting">
+        <span>Horizontal field of view of each photo</span>
+        {numberInput(fov, (value) => onChange({ fov: value, config }), {
+          min: 10,
+          max: 170,
+        })}
+        °
+      </label>
+
+      <details className="stitch-advanced">
+        <summary>Advanced settings</summary>
+
+        <label className="stitch-setting">
+          <span>Feature detector</span>
+          <select
+            value={config.detector}
+            onChange={(e) =>
+              updateConfig({ detector: e.target.value as FeatureDetector })
+            }
+            disabled={disabled}
+          >
+            <option value="orb">ORB (faster)</option>
+            <option value="akaze">AKAZE (more robust)</option>
+          </select>
+        </label>
+
+        <label className="stitch-setting">
+          <span>Features per photo</span>
+          {numberInput(
+            config.maxFeatures,
+            (value) => updateConfig({ maxFeatures: value }),
+            { min: 100, max: 10000, step: 100 }
+          )}
+        </label>
+
+        <label className="stitch-setting">
+          <span>Match ratio test</span>
+          {numberInput(
+            config.ratioTest,
+            (value) => updateConfig({ ratioTest: value }),
+            { min: 0.5, max: 0.95, step: 0.05 }
+          )}
+        </label>
+
+        <label className="stitch-setting">
+          <span>Inlier tolerance</span>
+          {numberInput(
+            config.inlierTolerance,
+            (value) => updateConfig({ inlierTolerance: value }),
+            { min: 1, max: 20 }
+          )}
+          px
+        </label>
+
+        <label className="stitch-setting">
+          <span>Blending</span>
+          <select
+            value={config.blend.mode}
+            onChange={(e) =>
+              updateConfig({
+                blend: { ...config.blend, mode: e.target.value as BlendMode },
+              })
+            }
+            disabled={disabled}
+          >
+            <option value="multiband">Multi-band</option>
+            <option value="feather">Feather</option>
+          </select>
+        </label>
+
+        {config.blend.mode === "multiband" ? (
+          <label className="stitch-setting">
+            <span>Frequency bands</span>
+            {numberInput(
+              config.blend.bands,
+              (value) =>
+                updateConfig({ blend: { ...config.blend, bands: value } }),
+              { min: 1, max: 7 }
+            )}
+          </label>
+        ) : (
+          <label className="stitch-setting">
+            <span>Feather width</span>
+            {numberInput(
+              config.blend.featherWidth,
+              (value) =>
+                updateConfig({
+                  blend: { ...config.blend, featherWidth: value },
+                }),
+              { min: 1, max: 201, step: 2 }
+            )}
+            px
+          </label>
+        )}
+
+        <label className="stitch-setting">
+          <span>Maximum output width</span>
+          {numberInput(
+            config.maxOutputWidth,
+            (value) => updateConfig({ maxOutputWidth: value }),
+            { min: 512, max: 8192, step: 512 }
+          )}
+          px
+        </label>
+      </details>
+    </div>
+  );
+}
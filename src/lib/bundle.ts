@@ -0,0 +1,581 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import type { SavedPanorama } from "../components/ImageTree";
+import { generateId } from "./ids";
+import { fetchImageBlob } from "./imageStore";
+import { equirectangularBlob } from "./projections";
+import { getNodes, isWebUrl, migrateLegacyTree } from "./tourGraph";
+import type {
+  Hotspot,
+  HotspotContent,
+  ImageNodeData,
+  LegacyImageNode,
+  SceneLink,
+  TourGraph,
+} from "./tourGraph";
+
+export const BUNDLE_FORMAT = "tour-builder";
+// Version 1 stored scenes as a nested tree, version 2 as a graph
+export const BUNDLE_VERSION = 2;
+export const MANIFEST_FILE = "tour.json";
+
+interface BundleHotspotContent
+  extends Omit<HotspotContent, "imageUrl" | "videoUrl"> {
+  image?: string;
+  video?: string;
+}
+
+interface BundleHotspot extends Omit<Hotspot, "content"> {
+  content?: BundleHotspotContent;
+}
+
+interface BundleNode extends Omit<ImageNodeData, "imageUrl" | "hotspots"> {
+  image: string;
+  hotspots: BundleHotspot[];
+}
+
+interface LegacyBundleNode extends BundleNode {
+  children: LegacyBundleNode[];
+}
+
+interface BundleGraph {
+  rootId: string | null;
+  nodes: BundleNode[];
+  links: SceneLink[];
+}
+
+interface BundlePanorama extends Omit<SavedPanorama, "imageUrl"> {
+  image: string;
+}
+
+export interface TourManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  graph: BundleGraph;
+  panoramas: BundlePanorama[];
+}
+
+interface LegacyTourManifest extends Omit<TourManifest, "graph"> {
+  rootNode: LegacyBundleNode | null;
+}
+
+export interface TourBundle {
+  name: string;
+  graph: TourGraph;
+  panoramas: SavedPanorama[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+};
+
+function mimeTypeForPath(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension);
+  return match ? match[0] : "application/octet-stream";
+}
+
+// Writes every file referenced by the tour into the archive once, recording
+// the archive path for each URL in `paths`.
+async function packFiles(
+  urls: string[],
+  folder: string,
+  files: Zippable,
+  paths: Map<string, string>
+) {
+  for (const url of urls) {
+    if (paths.has(url)) continue;
+    const blob = await fetchImageBlob(url);
+    const extension = EXTENSIONS[blob.type] ?? "bin";
+    const path = `${folder}/${String(paths.size + 1).padStart(3, "0")}.${extension}`;
+    // Images and videos are already compressed, so store them as-is
+    files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    paths.set(url, path);
+  }
+}
+
+export async function exportTourBundle(tour: TourBundle): Promise<Blob> {
+  // Cubemap and fisheye scenes are exported converted, like published
+  // tours, so every bundle scene is equirectangular
+  const convertedUrls = new Map<string, string>();
+  try {
+    for (const node of getNodes(tour.graph)) {
+      const converted = await equirectangularBlob(
+        node.imageUrl,
+        node.projection
+      );
+      if (converted) {
+        convertedUrls.set(node.id, URL.createObjectURL(converted));
+      }
+    }
+    return await packBundle(tour, convertedUrls);
+  } finally {
+    convertedUrls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+async function packBundle(
+  tour: TourBundle,
+  convertedUrls: Map<string, string>
+): Promise<Blob> {
+  const files: Zippable = {};
+  const nodes = getNodes(tour.graph).map((node) => {
+    const converted = convertedUrls.get(node.id);
+    return converted
+      ? { ...node, imageUrl: converted, projection: undefined }
+      : node;
+  });
+  const contents = nodes.flatMap((node) =>
+    node.hotspots.flatMap((hotspot) =>
+      hotspot.content ? [hotspot.content] : []
+    )
+  );
+  const paths = new Map<string, string>();
+  await packFiles(
+    [
+      ...nodes.map((node) => node.imageUrl),
+      ...tour.panoramas.map((pano) => pano.imageUrl),
+    ],
+    "images",
+    files,
+    paths
+  );
+  await packFiles(
+    contents.flatMap((content) =>
+      [content.imageUrl, content.videoUrl].filter((url) => url !== undefined)
+    ),
+    "media",
+    files,
+    paths
+  );
+
+  const toBundleHotspot = (hotspot: Hotspot): BundleHotspot => {
+    if (!hotspot.content) return hotspot as BundleHotspot;
+    const { imageUrl, videoUrl, ...content } = hotspot.content;
+    return {
+      ...hotspot,
+      content: {
+        ...content,
+        image: imageUrl ? paths.get(imageUrl) : undefined,
+        video: videoUrl ? paths.get(videoUrl) : undefined,
+      },
+    };
+  };
+
+  const manifest: TourManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name: tour.name,
+    exportedAt: new Date().toISOString(),
+    graph: {
+      rootId: tour.graph.rootId,
+      nodes: nodes.map(({ imageUrl, hotspots, ...rest }) => ({
+        ...rest,
+        image: paths.get(imageUrl)!,
+        hotspots: hotspots.map(toBundleHotspot),
+      })),
+      links: tour.graph.links,
+    },
+    panoramas: tour.panoramas.map(({ imageUrl, ...rest }) => ({
+      ...rest,
+      image: paths.get(imageUrl)!,
+    })),
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid ${MANIFEST_FILE}: ${path} ${message}`);
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") fail(path, "must be a string");
+  return value;
+}
+
+function validateHotspot(value: unknown, path: string): Hotspot {
+  if (!isRecord(value)) fail(path, "must be an object");
+  const position = value.position;
+  if (
+    !isRecord(position) ||
+    !["x", "y", "z"].every((axis) => typeof position[axis] === "number")
+  ) {
+    fail(`${path}.position`, "must have numeric x, y and z");
+  }
+  if (value.type !== "info" && value.type !== "link") {
+    fail(`${path}.type`, 'must be "info" or "link"');
+  }
+  if (value.targetNodeId !== undefined) {
+    expectString(value.targetNodeId, `${path}.targetNodeId`);
+  }
+  expectString(value.id, `${path}.id`);
+  expectString(value.label, `${path}.label`);
+  if (
+    value.transition !== undefined &&
+    !["crossfade", "zoom", "blur", "none"].includes(value.transition as string)
+  ) {
+    fail(`${path}.transition`, 'must be "crossfade", "zoom", "blur" or "none"');
+  }
+  expectOptionalNumbers(value, ["arrivalHeading"], path);
+  if (value.content !== undefined) {
+    const content = value.content;
+    if (!isRecord(content)) fail(`${path}.content`, "must be an object");
+    for (const field of ["text", "image", "linkUrl", "video"]) {
+      if (content[field] !== undefined) {
+        expectString(content[field], `${path}.content.${field}`);
+      }
+    }
+    if (content.linkUrl !== undefined && !isWebUrl(content.linkUrl as string)) {
+      fail(`${path}.content.linkUrl`, "must start with http:// or https://");
+    }
+  }
+  return value as unknown as Hotspot;
+}
+
+function expectOptionalNumbers(
+  value: Record<string, unknown>,
+  fields: string[],
+  path: string
+) {
+  for (const field of fields) {
+    if (value[field] !== undefined && typeof value[field] !== "number") {
+      fail(`${path}.${field}`, "must be a number");
+    }
+  }
+}
+
+// Where and when a scene or panorama was photographed
+function validateCapture(value: Record<string, unknown>, path: string) {
+  if (value.location !== undefined) {
+    const location = value.location;
+    if (
+      !isRecord(location) ||
+      typeof location.latitude !== "number" ||
+      typeof location.longitude !== "number"
+    ) {
+      fail(`${path}.location`, "must have numeric latitude and longitude");
+    }
+    expectOptionalNumbers(location, ["altitude"], `${path}.location`);
+  }
+  if (value.capturedAt !== undefined) {
+    expectString(value.capturedAt, `${path}.capturedAt`);
+  }
+}
+
+function validateNode(value: unknown, path: string): BundleNode {
+  if (!isRecord(value)) fail(path, "must be an object");
+  expectString(value.id, `${path}.id`);
+  expectString(value.label, `${path}.label`);
+  expectString(value.image, `${path}.image`);
+  if (!Array.isArray(value.hotspots)) fail(`${path}.hotspots`, "must be an array");
+  value.hotspots.forEach((hotspot, i) =>
+    validateHotspot(hotspot, `${path}.hotspots[${i}]`)
+  );
+  if (value.area !== undefined) {
+    const area = value.area;
+    if (
+      !isRecord(area) ||
+      !["left", "top", "width", "height"].every(
+        (side) => typeof area[side] === "number"
+      )
+    ) {
+      fail(`${path}.area`, "must have numeric left, top, width and height");
+    }
+  }
+  expectOptionalNumbers(value, ["initialHeading", "compassHeading"], path);
+  if (
+    value.projection !== undefined &&
+    !["equirectangular", "cubemap", "dual-fisheye"].includes(
+      value.projection as string
+    )
+  ) {
+    fail(
+      `${path}.projection`,
+      'must be "equirectangular", "cubemap" or "dual-fisheye"'
+    );
+  }
+  if (value.view !== undefined) {
+    if (!isRecord(value.view)) fail(`${path}.view`, "must be an object");
+    expectOptionalNumbers(
+      value.view,
+      [
+        "initialYaw",
+        "initialPitch",
+        "initialFov",
+        "minFov",
+        "maxFov",
+        "minPitch",
+        "maxPitch",
+      ],
+      `${path}.view`
+    );
+  }
+  validateCapture(value, path);
+  return value as unknown as BundleNode;
+}
+
+function validateLegacyNode(
+  value: unknown,
+  path: string,
+  ids = new Set<string>()
+): LegacyBundleNode {
+  const { id } = validateNode(value, path);
+  if (ids.has(id)) fail(`${path}.id`, `"${id}" is used twice`);
+  ids.add(id);
+  const { children } = value as Record<string, unknown>;
+  if (!Array.isArray(children)) fail(`${path}.children`, "must be an array");
+  children.forEach((child, i) =>
+    validateLegacyNode(child, `${path}.children[${i}]`, ids)
+  );
+  return value as LegacyBundleNode;
+}
+
+function validateGraph(value: unknown, path: string): BundleGraph {
+  if (!isRecord(value)) fail(path, "must be an object");
+  if (value.rootId !== null) expectString(value.rootId, `${path}.rootId`);
+  if (!Array.isArray(value.nodes)) fail(`${path}.nodes`, "must be an array");
+  if (!Array.isArray(value.links)) fail(`${path}.links`, "must be an array");
+
+  const ids = new Set<string>();
+  value.nodes.forEach((node, i) => {
+    const { id } = validateNode(node, `${path}.nodes[${i}]`);
+    if (ids.has(id)) fail(`${path}.nodes[${i}].id`, `"${id}" is used twice`);
+    ids.add(id);
+  });
+  if (value.rootId !== null && !ids.has(value.rootId as string)) {
+    fail(`${path}.rootId`, "must be the id of a scene");
+  }
+  value.links.forEach((link, i) => {
+    if (
+      !isRecord(link) ||
+      !ids.has(link.from as string) ||
+      !ids.has(link.to as string)
+    ) {
+      fail(`${path}.links[${i}]`, "must connect two scenes");
+    }
+  });
+  return value as unknown as BundleGraph;
+}
+
+export function validateManifest(
+  data: unknown
+): TourManifest | LegacyTourManifest {
+  if (!isRecord(data)) fail("root", "must be an object");
+  if (data.format !== BUNDLE_FORMAT) {
+    fail("format", `must be "${BUNDLE_FORMAT}"`);
+  }
+  if (typeof data.version !== "number" || data.version > BUNDLE_VERSION) {
+    fail("version", `must be a number no newer than ${BUNDLE_VERSION}`);
+  }
+  expectString(data.name, "name");
+  if (data.version < 2) {
+    if (data.rootNode !== null) validateLegacyNode(data.rootNode, "rootNode");
+  } else {
+    validateGraph(data.graph, "graph");
+  }
+  if (!Array.isArray(data.panoramas)) fail("panoramas", "must be an array");
+  data.panoramas.forEach((pano, i) => {
+    if (!isRecord(pano)) fail(`panoramas[${i}]`, "must be an object");
+    expectString(pano.id, `panoramas[${i}].id`);
+    expectString(pano.name, `panoramas[${i}].name`);
+    expectString(pano.image, `panoramas[${i}].image`);
+    expectOptionalNumbers(
+      pano,
+      ["width", "height", "size", "createdAt"],
+      `panoramas[${i}]`
+    );
+    validateCapture(pano, `panoramas[${i}]`);
+    // Thumbnails are embedded, so opening a bundle never fetches anything
+    if (
+      pano.thumbnailUrl !== undefined &&
+      !expectString(pano.thumbnailUrl, `panoramas[${i}].thumbnailUrl`)
+        .startsWith("data:image/")
+    ) {
+      fail(`panoramas[${i}].thumbnailUrl`, "must be an image data URL");
+    }
+    if (
+      pano.sourceImages !== undefined &&
+      (!Array.isArray(pano.sourceImages) ||
+        pano.sourceImages.some((name) => typeof name !== "string"))
+    ) {
+      fail(`panoramas[${i}].sourceImages`, "must be an array of strings");
+    }
+  });
+  return data as unknown as TourManifest | LegacyTourManifest;
+}
+
+export async function importTourBundle(file: Blob): Promise<TourBundle> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error("The selected file is not a valid .zip bundle");
+  }
+
+  const manifestData = files[MANIFEST_FILE];
+  if (!manifestData) {
+    throw new Error(`The bundle has no ${MANIFEST_FILE}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(manifestData));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  const manifest = validateManifest(parsed);
+
+  const urls = new Map<string, string>();
+  const imageUrlFor = (path: string) => {
+    const cached = urls.get(path);
+    if (cached) return cached;
+    const data = files[path];
+    if (!data) {
+      throw new Error(`The bundle is missing ${path}`);
+    }
+    const url = URL.createObjectURL(
+      new Blob([data as Uint8Array<ArrayBuffer>], {
+        type: mimeTypeForPath(path),
+      })
+    );
+    urls.set(path, url);
+    return url;
+  };
+
+  const fromBundleHotspot = (hotspot: BundleHotspot): Hotspot => {
+    if (!hotspot.content) return hotspot as Hotspot;
+    const { image, video, ...content } = hotspot.content;
+    return {
+      ...hotspot,
+      content: {
+        ...content,
+        imageUrl: image ? imageUrlFor(image) : undefined,
+        videoUrl: video ? imageUrlFor(video) : undefined,
+      },
+    };
+  };
+
+  const fromBundleNode = ({
+    image,
+    hotspots,
+    ...rest
+  }: BundleNode): ImageNodeData => ({
+    ...rest,
+    imageUrl: imageUrlFor(image),
+    hotspots: hotspots.map(fromBundleHotspot),
+  });
+
+  const fromLegacyNode = (node: LegacyBundleNode): LegacyImageNode => ({
+    ...fromBundleNode(node),
+    children: node.children.map(fromLegacyNode),
+  });
+
+  let graph: TourGraph;
+  if ("graph" in manifest) {
+    graph = {
+      rootId: manifest.graph.rootId,
+      nodes: Object.fromEntries(
+        manifest.graph.nodes.map((node) => [node.id, fromBundleNode(node)])
+      ),
+      links: manifest.graph.links,
+    };
+  } else {
+    graph = manifest.rootNode
+      ? migrateLegacyTree(fromLegacyNode(manifest.rootNode))
+      : { rootId: null, nodes: {}, links: [] };
+  }
+
+  return {
+    name: manifest.name,
+    graph,
+    panoramas: manifest.panoramas.map(({ image, ...rest }) => ({
+      ...rest,
+      imageUrl: imageUrlFor(image),
+    })),
+  };
+}
+
+// Gives imported scenes, hotspots and panoramas fresh IDs wherever they
+// clash with the existing tour, keeping links pointed at the right scene.
+export function remapCollidingIds(
+  bundle: TourBundle,
+  existingGraph: TourGraph,
+  existingPanoramas: SavedPanorama[]
+): TourBundle {
+  const taken = new Set<string>(existingPanoramas.map((pano) => pano.id));
+  getNodes(existingGraph).forEach((node) => {
+    taken.add(node.id);
+    node.hotspots.forEach((hotspot) => taken.add(hotspot.id));
+  });
+
+  const freshId = (id: string) => {
+    if (!taken.has(id)) {
+      taken.add(id);
+      return id;
+    }
+    let next = generateId();
+    while (taken.has(next)) next = generateId();
+    taken.add(next);
+    return next;
+  };
+
+  const nodeIds = new Map<string, string>();
+  getNodes(bundle.graph).forEach((node) =>
+    nodeIds.set(node.id, freshId(node.id))
+  );
+  const nodeId = (id: string) => nodeIds.get(id) ?? id;
+
+  const nodes: Record<string, ImageNodeData> = {};
+  getNodes(bundle.graph).forEach((node) => {
+    const id = nodeId(node.id);
+    nodes[id] = {
+      ...node,
+      id,
+      // A link to a scene that isn't in the bundle could land on an
+      // unrelated scene of the same id once merged, so it's dropped
+      hotspots: node.hotspots
+        .filter(
+          (hotspot) =>
+            !hotspot.targetNodeId || nodeIds.has(hotspot.targetNodeId)
+        )
+        .map((hotspot) => ({
+          ...hotspot,
+          id: freshId(hotspot.id),
+          targetNodeId: hotspot.targetNodeId
+            ? nodeId(hotspot.targetNodeId)
+            : undefined,
+        })),
+    };
+  });
+
+  return {
+    ...bundle,
+    graph: {
+      rootId: bundle.graph.rootId ? nodeId(bundle.graph.rootId) : null,
+      nodes,
+      links: bundle.graph.links.map((link) => ({
+        from: nodeId(link.from),
+        to: nodeId(link.to),
+      })),
+    },
+    panoramas: bundle.panoramas.map((pano) => ({
+      ...pano,
+      id: freshId(pano.id),
+    })),
+  };
+}
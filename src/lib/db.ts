@@ -0,0 +1,91 @@
+const DB_NAME = "tour-builder";
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = "projects";
+export const IMAGES_STORE = "images";
+// Tile pyramids of large images, keyed by the id of the image they're cut
+// from. The tiles themselves are stored as images.
+export const PYRAMIDS_STORE = "pyramids";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(PYRAMIDS_STORE)) {
+          db.createObjectStore(PYRAMIDS_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Writes to projects, images and pyramids run one at a time. Otherwise a
+// delete's image clean-up could remove blobs a save has stored but not yet
+// pointed its project at, and a save that read its project before a delete
+// would write it back.
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+export function queueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = pendingWrites.then(write);
+  pendingWrites = result.catch(() => undefined);
+  return result;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return requestToPromise(action(transaction.objectStore(storeName)));
+}
+
+export function getRecord<T>(
+  storeName: string,
+  key: string
+): Promise<T | undefined> {
+  return runInStore(storeName, "readonly", (store) => store.get(key));
+}
+
+export function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return runInStore(storeName, "readonly", (store) => store.getAll());
+}
+
+export function getAllKeys(storeName: string): Promise<IDBValidKey[]> {
+  return runInStore(storeName, "readonly", (store) => store.getAllKeys());
+}
+
+export async function putRecord<T>(storeName: string, value: T): Promise<void> {
+  await runInStore(storeName, "readwrite", (store) => store.put(value));
+}
+
+export async function deleteRecord(
+  storeName: string,
+  key: string
+): Promise<void> {
+  await runInStore(storeName, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,3 @@
+export function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
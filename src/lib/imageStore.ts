@@ -0,0 +1,89 @@
+import {
+  IMAGES_STORE,
+  deleteRecord,
+  getAllKeys,
+  getRecord,
+  putRecord,
+} from "./db";
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+// Images live in memory as object URLs and in IndexedDB as content-addressed
+// blobs. These maps let us go from one to the other without re-hashing.
+const idsByUrl = new Map<string, string>();
+const urlsById = new Map<string, string>();
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function fetchImageBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not read image data (${response.status})`);
+  }
+  return response.blob();
+}
+
+// The id an image is, or would be, stored under
+export async function getImageId(url: string): Promise<string> {
+  return idsByUrl.get(url) ?? hashBlob(await fetchImageBlob(url));
+}
+
+export async function storeBlob(blob: Blob): Promise<string> {
+  const id = await hashBlob(blob);
+  const existing = await getRecord<StoredImage>(IMAGES_STORE, id);
+  if (!existing) {
+    await putRecord<StoredImage>(IMAGES_STORE, { id, blob });
+  }
+  return id;
+}
+
+export async function storeImage(url: string): Promise<string> {
+  const knownId = idsByUrl.get(url);
+  if (knownId) return knownId;
+
+  const id = await storeBlob(await fetchImageBlob(url));
+  idsByUrl.set(url, id);
+  if (!urlsById.has(id)) {
+    urlsById.set(id, url);
+  }
+  return id;
+}
+
+export async function getImageUrl(id: string): Promise<string> {
+  const cachedUrl = urlsById.get(id);
+  if (cachedUrl) return cachedUrl;
+
+  const record = await getRecord<StoredImage>(IMAGES_STORE, id);
+  if (!record) {
+    throw new Error(`Image ${id} is missing from the database`);
+  }
+
+  const url = URL.createObjectURL(record.blob);
+  urlsById.set(id, url);
+  idsByUrl.set(url, id);
+  return url;
+}
+
+export async function deleteUnusedImages(usedIds: Set<string>) {
+  const keys = await getAllKeys(IMAGES_STORE);
+  for (const key of keys) {
+    const id = String(key);
+    if (usedIds.has(id)) continue;
+
+    await deleteRecord(IMAGES_STORE, id);
+    // Forget the mapping so an in-memory tree still using this URL stores
+    // the blob again on its next save.
+    for (const [url, mappedId] of idsByUrl) {
+      if (mappedId === id) idsByUrl.delete(url);
+    }
+    urlsById.delete(id);
+  }
+}
@@ -0,0 +1,70 @@
+// A small, safe Markdown subset for hotspot text: headings, paragraphs,
+// bullet lists, **bold**, *italic*, `code` and [links](https://...).
+// Everything is HTML-escaped first, so the output can be set as innerHTML.
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/\*([^*]+)\*/g, "<em>$1</em>")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) =>
+      SAFE_URL.test(url)
+        ? `<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>`
+        : match
+    );
+}
+
+export function renderMarkdown(source: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let listItems: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (listItems.length > 0) {
+      const items = listItems.map((item) => `<li>${item}</li>`).join("");
+      html.push(`<ul>${items}</ul>`);
+      listItems = [];
+    }
+  };
+
+  for (const line of source.split(/\r?\n/)) {
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const listItem = /^\s*[-*]\s+(.*)$/.exec(line);
+
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const level = heading[1].length + 2;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (listItem) {
+      flushParagraph();
+      listItems.push(renderInline(listItem[1]));
+    } else if (line.trim() === "") {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  flushList();
+  return html.join("");
+}
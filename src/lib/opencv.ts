@@ -0,0 +1,99 @@
+// Typed access to the bundled OpenCV.js build. Only the stitching worker
+// imports this, which keeps the large WASM payload out of the app bundle
+// and loads it the first time a panorama is stitched.
+import cv from "@techstark/opencv-js";
+import type {
+  DMatchVectorVector,
+  DescriptorMatcher,
+  Feature2D,
+  KeyPointVector,
+  Mat,
+} from "@techstark/opencv-js";
+
+export { cv };
+export type { DMatchVectorVector, Feature2D, KeyPointVector, Mat };
+
+// The emscripten module is thenable, so it must never be handed to
+// `resolve()` or awaited directly - that recurses forever.
+interface EmscriptenRuntime {
+  then(callback: () => void): unknown;
+}
+
+let ready: Promise<void> | null = null;
+
+// Resolves once the WASM runtime has initialised
+export function whenOpenCVReady(): Promise<void> {
+  if (!ready) {
+    ready = new Promise((resolve) => {
+      (cv as unknown as EmscriptenRuntime).then(() => resolve());
+    });
+  }
+  return ready;
+}
+
+// BFMatcher's typings are missing both knnMatch and delete
+type Matcher = DescriptorMatcher & { delete(): void };
+
+// Brute-force k-nearest-neighbour matching of binary descriptors
+export function knnMatch(
+  query: Mat,
+  train: Mat,
+  k: number
+): DMatchVectorVector {
+  const matcher = new cv.BFMatcher(
+    cv.NORM_HAMMING,
+    false
+  ) as unknown as Matcher;
+  const matches = new cv.DMatchVectorVector();
+  try {
+    matcher.knnMatch(query, train, matches, k);
+  } finally {
+    matcher.delete();
+  }
+  return matches;
+}
+
+type Akaze = Feature2D & { setThreshold(threshold: number): void };
+
+// AKAZE is compiled into the build but missing from its typings
+export function createAkaze(threshold: number): Feature2D {
+  const { AKAZE } = cv as unknown as { AKAZE: new () => Akaze };
+  const akaze = new AKAZE();
+  akaze.setThreshold(threshold);
+  return akaze;
+}
+
+// Anything allocated on the WASM heap, which the garbage collector can't see
+interface Deletable {
+  delete(): void;
+  isDeleted(): boolean;
+}
+
+export interface Scope {
+  // Deletes `object` when the scope ends
+  track<T extends Deletable>(object: T): T;
+  // Hands a tracked object to the caller instead of deleting it
+  keep<T extends Deletable>(object: T): T;
+}
+
+// Runs `body`, then deletes everything it tracked whether it returned or
+// threw, so a failed stitch doesn't leave hundreds of megabytes behind
+export function withScope<T>(body: (scope: Scope) => T): T {
+  const tracked = new Set<Deletable>();
+  try {
+    return body({
+      track: (object) => {
+        tracked.add(object);
+        return object;
+      },
+      keep: (object) => {
+        tracked.delete(object);
+        return object;
+      },
+    });
+  } finally {
+    tracked.forEach((object) => {
+      if (!object.isDeleted()) object.delete();
+    });
+  }
+}
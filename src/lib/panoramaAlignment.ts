@@ -0,0 +1,339 @@
+// Aligns photos once they've been projected onto the sphere, where the
+// camera turning between shots is a plain 2D translation. Every pair is
+// matched to find which photos overlap, then all positions are solved
+// together so errors don't pile up along a chain.
+import { createAkaze, cv, knnMatch, withScope } from "./opencv";
+import type { Feature2D, KeyPointVector, Mat } from "./opencv";
+import { contentMask } from "./panoramaProjection";
+import type { SphericalImage } from "./panoramaProjection";
+import type { StitchConfig } from "./stitchConfig";
+
+// Low enough that AKAZE finds plenty of keypoints; the weakest are then
+// trimmed to the configured count
+const AKAZE_THRESHOLD = 0.0001;
+
+// Fewer inliers than this and two photos are taken not to overlap
+export const MIN_INLIERS = 12;
+// A pair disagreeing with the global solution by more than this many
+// pixels is treated as a false match
+const MAX_RESIDUAL = 20;
+
+export interface Features {
+  keypoints: KeyPointVector;
+  descriptors: Mat;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// One feature found in both photos, in each photo's own coordinates
+export interface MatchedPoints {
+  prev: Point;
+  next: Point;
+}
+
+export interface PairAlignment {
+  // Offset of `next`'s top-left corner from `prev`'s, in pixels
+  dx: number;
+  dy: number;
+  // Matches passing the ratio test, and how many agree on the offset
+  matches: number;
+  inliers: number;
+  inlierMatches: MatchedPoints[];
+}
+
+// A measured offset between the centres of photos `from` and `to`
+export interface ImagePair {
+  from: number;
+  to: number;
+  dx: number;
+  dy: number;
+  inliers: number;
+}
+
+export interface GlobalAlignment {
+  // Photo centres in pixels relative to the first aligned photo, or null
+  // for photos that don't overlap the others
+  positions: ({ x: number; y: number } | null)[];
+  // Pairs that were kept; offsets across the 360° seam include the wrap
+  pairs: ImagePair[];
+  rejected: ImagePair[];
+  // Set when the photos go all the way around: how far the chain of
+  // offsets missed closing the loop, in pixels, before it was spread out
+  loopError: number | null;
+}
+
+// Keeps the `count` keypoints with the strongest response
+function keepStrongest(features: Features, count: number): Features {
+  const { keypoints, descriptors } = features;
+  const order = Array.from({ length: keypoints.size() }, (_, i) => i)
+    .sort((a, b) => keypoints.get(b).response - keypoints.get(a).response)
+    .slice(0, count);
+
+  return withScope(({ track, keep }) => {
+    const kept = track(new cv.KeyPointVector());
+    const rows = track(
+      new cv.Mat(order.length, descriptors.cols, descriptors.type())
+    );
+    order.forEach((index, row) => {
+      kept.push_back(keypoints.get(index));
+      track(descriptors.row(index)).copyTo(track(rows.row(row)));
+    });
+    return { keypoints: keep(kept), descriptors: keep(rows) };
+  });
+}
+
+export function detectFeatures(
+  sphere: SphericalImage,
+  config: StitchConfig
+): Features {
+  return withScope(({ track, keep }) => {
+    const gray = track(new cv.Mat());
+    cv.cvtColor(sphere.image, gray, cv.COLOR_RGBA2GRAY);
+
+    // Skip the photo's border, where the transparent padding begins
+    const mask = track(contentMask(sphere));
+    const kernel = track(
+      cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(7, 7))
+    );
+    cv.erode(mask, mask, kernel);
+
+    // ORB caps its own keypoints; AKAZE finds what it finds and is trimmed
+    const detector: Feature2D = track(
+      config.detector === "akaze"
+        ? createAkaze(AKAZE_THRESHOLD)
+        : new cv.ORB(config.maxFeatures)
+    );
+    const keypoints = track(new cv.KeyPointVector());
+    const descriptors = track(new cv.Mat());
+    detector.detectAndCompute(gray, mask, keypoints, descriptors);
+
+    const features = { keypoints, descriptors };
+    return keypoints.size() > config.maxFeatures
+      ? keepStrongest(features, config.maxFeatures)
+      : { keypoints: keep(keypoints), descriptors: keep(descriptors) };
+  });
+}
+
+export function releaseFeatures(features: Features) {
+  features.keypoints.delete();
+  features.descriptors.delete();
+}
+
+export function keypointPositions(features: Features): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < features.keypoints.size(); i++) {
+    const { x, y } = features.keypoints.get(i).pt;
+    points.push({ x, y });
+  }
+  return points;
+}
+
+// Whether enough matches agree for the two photos to be taken as overlapping
+export function hasOverlap(pair: PairAlignment): boolean {
+  return pair.inliers >= MIN_INLIERS;
+}
+
+export function matchFeatures(
+  prev: Features,
+  next: Features,
+  config: StitchConfig
+): PairAlignment {
+  const empty = { dx: 0, dy: 0, matches: 0, inliers: 0, inlierMatches: [] };
+  if (prev.keypoints.size() < 4 || next.keypoints.size() < 4) return empty;
+
+  // Lowe's ratio test, then the offset each surviving match implies
+  const candidates: (MatchedPoints & { dx: number; dy: number })[] = [];
+  withScope(({ track }) => {
+    const knn = track(knnMatch(next.descriptors, prev.descriptors, 2));
+    for (let i = 0; i < knn.size(); i++) {
+      const pair = track(knn.get(i));
+      if (pair.size() < 2) continue;
+      const m = pair.get(0);
+      if (m.distance >= config.ratioTest * pair.get(1).distance) continue;
+      const { x: nx, y: ny } = next.keypoints.get(m.queryIdx).pt;
+      const { x: px, y: py } = prev.keypoints.get(m.trainIdx).pt;
+      candidates.push({
+        prev: { x: px, y: py },
+        next: { x: nx, y: ny },
+        dx: px - nx,
+        dy: py - ny,
+      });
+    }
+  });
+  if (candidates.length === 0) return empty;
+
+  // Keep the largest group of matches that agree on one offset
+  let best: typeof candidates = [];
+  for (const candidate of candidates) {
+    const agreeing = candidates.filter(
+      (o) =>
+        Math.abs(o.dx - candidate.dx) <= config.inlierTolerance &&
+        Math.abs(o.dy - candidate.dy) <= config.inlierTolerance
+    );
+    if (agreeing.length > best.length) best = agreeing;
+  }
+
+  return {
+    dx: best.reduce((sum, o) => sum + o.dx, 0) / best.length,
+    dy: best.reduce((sum, o) => sum + o.dy, 0) / best.length,
+    matches: candidates.length,
+    inliers: best.length,
+    inlierMatches: best.map(({ prev, next }) => ({ prev, next })),
+  };
+}
+
+// Solves `matrix * x = vector` by Gaussian elimination with pivoting
+export function solveLinear(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// Weighted least squares over every pair, with `anchor` pinned at zero
+function solvePositions(
+  nodes: number[],
+  pairs: ImagePair[],
+  anchor: number
+): Map<number, { x: number; y: number }> {
+  const free = nodes.filter((node) => node !== anchor);
+  const index = new Map(free.map((node, i) => [node, i]));
+  const n = free.length;
+  const matrix = free.map(() => new Array<number>(n).fill(0));
+  const bx = new Array<number>(n).fill(0);
+  const by = new Array<number>(n).fill(0);
+
+  for (const { from, to, dx, dy, inliers: w } of pairs) {
+    const i = index.get(from);
+    const j = index.get(to);
+    if (i !== undefined) {
+      matrix[i][i] += w;
+      bx[i] -= w * dx;
+      by[i] -= w * dy;
+    }
+    if (j !== undefined) {
+      matrix[j][j] += w;
+      bx[j] += w * dx;
+      by[j] += w * dy;
+    }
+    if (i !== undefined && j !== undefined) {
+      matrix[i][j] -= w;
+      matrix[j][i] -= w;
+    }
+  }
+
+  const xs = solveLinear(matrix, bx);
+  const ys = solveLinear(matrix, by);
+  const positions = new Map([[anchor, { x: 0, y: 0 }]]);
+  free.forEach((node, i) => positions.set(node, { x: xs[i], y: ys[i] }));
+  return positions;
+}
+
+// The photos reachable from `start` through `pairs`
+function connectedTo(start: number, pairs: ImagePair[]): number[] {
+  const seen = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const { from, to } of pairs) {
+      const other = from === node ? to : to === node ? from : null;
+      if (other !== null && !seen.has(other)) {
+        seen.add(other);
+        queue.push(other);
+      }
+    }
+  }
+  return [...seen];
+}
+
+// Places `count` photos from pairwise offsets. Offsets are unwrapped along
+// the strongest pairs first, so a pair that only fits by going the other
+// way around the sphere (`wrapWidth` pixels) is recognised as the seam
+// that closes a 360° loop.
+export function solveGlobalAlignment(
+  count: number,
+  measured: ImagePair[],
+  wrapWidth: number
+): GlobalAlignment {
+  // Work on the largest group of photos that overlap each other
+  let nodes: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const group = connectedTo(i, measured);
+    if (group.length > nodes.length) nodes = group;
+  }
+  const anchor = Math.min(...nodes);
+  const inGroup = new Set(nodes);
+  let pairs = measured.filter((p) => inGroup.has(p.from));
+
+  // Maximum spanning tree: rough positions from the most reliable pairs
+  const rough = new Map([[anchor, { x: 0, y: 0 }]]);
+  const byStrength = [...pairs].sort((a, b) => b.inliers - a.inliers);
+  while (rough.size < nodes.length) {
+    const edge = byStrength.find((p) => rough.has(p.from) !== rough.has(p.to))!;
+    if (rough.has(edge.from)) {
+      const base = rough.get(edge.from)!;
+      rough.set(edge.to, { x: base.x + edge.dx, y: base.y + edge.dy });
+    } else {
+      const base = rough.get(edge.to)!;
+      rough.set(edge.from, { x: base.x - edge.dx, y: base.y - edge.dy });
+    }
+  }
+
+  // Pairs that disagree with the tree by a whole turn cross the seam
+  let loopError: number | null = null;
+  pairs = pairs.map((pair) => {
+    const span = rough.get(pair.to)!.x - rough.get(pair.from)!.x;
+    const turns = Math.round((span - pair.dx) / wrapWidth);
+    if (turns === 0) return pair;
+    const dx = pair.dx + turns * wrapWidth;
+    loopError = Math.max(loopError ?? 0, Math.abs(span - dx));
+    return { ...pair, dx };
+  });
+
+  // Solve, then drop the worst false match while everything stays connected
+  const rejected: ImagePair[] = [];
+  let positions = solvePositions(nodes, pairs, anchor);
+  const residual = (p: ImagePair) =>
+    Math.hypot(
+      positions.get(p.to)!.x - positions.get(p.from)!.x - p.dx,
+      positions.get(p.to)!.y - positions.get(p.from)!.y - p.dy
+    );
+  while (pairs.length > 0) {
+    const worst = pairs.reduce((a, b) => (residual(b) > residual(a) ? b : a));
+    if (residual(worst) <= MAX_RESIDUAL) break;
+    const remaining = pairs.filter((p) => p !== worst);
+    if (connectedTo(anchor, remaining).length < nodes.length) break;
+    rejected.push(worst);
+    pairs = remaining;
+    positions = solvePositions(nodes, pairs, anchor);
+  }
+
+  return {
+    positions: Array.from(
+      { length: count },
+      (_, i) => positions.get(i) ?? null
+    ),
+    pairs,
+    rejected,
+    loopError,
+  };
+}
@@ -0,0 +1,636 @@
+// Composites aligned photos into the equirectangular panorama: exposure is
+// evened out first, overlaps are split along seams where the photos agree,
+// then the seams are hidden by feathering or multi-band blending.
+import { cv, withScope } from "./opencv";
+import type { Scope } from "./opencv";
+import type { Mat } from "./opencv";
+import { solveLinear } from "./panoramaAlignment";
+import { contentMask } from "./panoramaProjection";
+import type { Placement } from "./panoramaProjection";
+
+export type BlendMode = "feather" | "multiband";
+
+export interface BlendOptions {
+  mode: BlendMode;
+  // Number of frequency bands for multi-band blending
+  bands: number;
+  // Width in pixels of the cross-fade along seams when feathering
+  featherWidth: number;
+}
+
+// A photo ready to be composited, with its top-left corner at (x, y) in the
+// panorama. Horizontal positions wrap around the 360° seam.
+export interface Layer {
+  image: Mat;
+  // Where the photo has content
+  content: Mat;
+  // The part of `content` this photo contributes after seam finding
+  mask: Mat;
+  x: number;
+  y: number;
+}
+
+// Gain compensation weighs matching the overlaps (noise in intensity levels)
+// against keeping each gain close to 1, as in Brown & Lowe
+const INTENSITY_NOISE = 10;
+const GAIN_NOISE = 0.1;
+// Nudges tied seams towards the middle of an overlap
+const SEAM_CENTER_BIAS = 0.001;
+// Rows of the panorama blended at once, which keeps the floating-point
+// working images a fraction of the full panorama's size
+const TILE_ROWS = 512;
+
+// Turns a photo placed on the sphere into a layer of a panorama `width`
+// pixels wide
+export function placeLayer(
+  { sphere, yaw, pitch }: Placement,
+  width: number
+): Layer {
+  const height = Math.round(width / 2);
+  const scale = width / (2 * Math.PI);
+  return withScope(({ track, keep }) => {
+    const image = track(new cv.Mat());
+    cv.cvtColor(sphere.image, image, cv.COLOR_RGBA2RGB);
+    const content = track(contentMask(sphere));
+    const mask = track(content.clone());
+    return {
+      image: keep(image),
+      content: keep(content),
+      mask: keep(mask),
+      x: Math.round(width / 2 + yaw * scale - sphere.centerX),
+      y: Math.round(height / 2 + pitch * scale - sphere.centerY),
+    };
+  });
+}
+
+export function releaseLayers(layers: Layer[]) {
+  for (const layer of layers) {
+    layer.image.delete();
+    layer.content.delete();
+    layer.mask.delete();
+  }
+}
+
+// Multi-band blending halves the panorama `bands` times, so its width has
+// to divide evenly; feathering takes any width.
+export function blendableWidth(width: number, options: BlendOptions): number {
+  if (options.mode !== "multiband") return width;
+  const unit = 2 ** (options.bands + 1);
+  return Math.max(unit, Math.floor(width / unit) * unit);
+}
+
+// Where `b` overlaps `a`, in `a`'s coordinates. `b`'s top-left corner is at
+// (dx, dy) in the same coordinates.
+interface Overlap {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  dx: number;
+  dy: number;
+}
+
+function overlaps(a: Layer, b: Layer, panoWidth: number): Overlap[] {
+  const wrapped = (((b.x - a.x) % panoWidth) + panoWidth) % panoWidth;
+  const dy = b.y - a.y;
+  const top = Math.max(0, dy);
+  const bottom = Math.min(a.image.rows, dy + b.image.rows);
+  if (top >= bottom) return [];
+
+  const result: Overlap[] = [];
+  for (const dx of [wrapped - panoWidth, wrapped]) {
+    const left = Math.max(0, dx);
+    const right = Math.min(a.image.cols, dx + b.image.cols);
+    if (left < right) {
+      result.push({
+        x: left,
+        y: top,
+        width: right - left,
+        height: bottom - top,
+        dx,
+        dy,
+      });
+    }
+  }
+  return result;
+}
+
+function rectInA(overlap: Overlap) {
+  return new cv.Rect(overlap.x, overlap.y, overlap.width, overlap.height);
+}
+
+function rectInB(overlap: Overlap) {
+  return new cv.Rect(
+    overlap.x - overlap.dx,
+    overlap.y - overlap.dy,
+    overlap.width,
+    overlap.height
+  );
+}
+
+// Scales each photo's colour channels so overlapping areas match in
+// brightness, solved for all photos at once. Returns the [r, g, b] gains.
+export function compensateGains(
+  layers: Layer[],
+  panoWidth: number
+): number[][] {
+  const n = layers.length;
+  // Overlap areas, and the mean colour of photo i where it overlaps j
+  const area = layers.map(() => layers.map(() => 0));
+  const means = layers.map(() => layers.map(() => [0, 0, 0]));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      for (const overlap of overlaps(layers[i], layers[j], panoWidth)) {
+        withScope(({ track }) => {
+          const a = layers[i];
+          const b = layers[j];
+          const aImage = track(a.image.roi(rectInA(overlap)));
+          const bImage = track(b.image.roi(rectInB(overlap)));
+          const aContent = track(a.content.roi(rectInA(overlap)));
+          const bContent = track(b.content.roi(rectInB(overlap)));
+          const both = track(new cv.Mat());
+          cv.bitwise_and(aContent, bContent, both);
+          const count = cv.countNonZero(both);
+          if (count === 0) return;
+          const aMean = cv.mean(aImage, both);
+          const bMean = cv.mean(bImage, both);
+          for (let c = 0; c < 3; c++) {
+            means[i][j][c] += aMean[c] * count;
+            means[j][i][c] += bMean[c] * count;
+          }
+          area[i][j] += count;
+          area[j][i] += count;
+        });
+      }
+    }
+  }
+
+  const alpha = 1 / INTENSITY_NOISE ** 2;
+  const beta = 1 / GAIN_NOISE ** 2;
+  const gains = layers.map(() => [1, 1, 1]);
+  for (let c = 0; c < 3; c++) {
+    const matrix = layers.map(() => new Array<number>(n).fill(0));
+    const vector = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      // A photo that overlaps nothing keeps its exposure
+      if (area[i].every((count) => count === 0)) {
+        matrix[i][i] = 1;
+        vector[i] = 1;
+      }
+      for (let j = 0; j < n; j++) {
+        const count = area[i][j];
+        if (count === 0) continue;
+        vector[i] += beta * count;
+        matrix[i][i] += beta * count;
+        const mine = means[i][j][c] / count;
+        const theirs = means[j][i][c] / count;
+        matrix[i][i] += 2 * alpha * mine * mine * count;
+        matrix[i][j] -= 2 * alpha * mine * theirs * count;
+      }
+    }
+    solveLinear(matrix, vector).forEach((gain, i) => (gains[i][c] = gain));
+  }
+
+  layers.forEach((layer, i) =>
+    withScope(({ track }) => {
+      const channels = track(new cv.MatVector());
+      cv.split(layer.image, channels);
+      for (let c = 0; c < 3; c++) {
+        const channel = track(channels.get(c));
+        channel.convertTo(channel, -1, gains[i][c], 0);
+        channels.set(c, channel);
+      }
+      cv.merge(channels, layer.image);
+    })
+  );
+  return gains;
+}
+
+// Splits one overlap between `a` and `b` along the path of least colour
+// difference, found by dynamic programming, so moving objects and small
+// misalignments don't show up twice.
+function cutSeam(a: Layer, b: Layer, overlap: Overlap, { track }: Scope) {
+  const aRoi = rectInA(overlap);
+  const bRoi = rectInB(overlap);
+  const aMaskRoi = track(a.mask.roi(aRoi));
+  const bMaskRoi = track(b.mask.roi(bRoi));
+  // Clones are continuous, so their pixels can be indexed directly
+  const aPixels = track(track(a.image.roi(aRoi)).clone());
+  const bPixels = track(track(b.image.roi(bRoi)).clone());
+  const aMask = track(aMaskRoi.clone());
+  const bMask = track(bMaskRoi.clone());
+
+  const { width, height } = overlap;
+  const aData = aPixels.data;
+  const bData = bPixels.data;
+  const aBits = aMask.data;
+  const bBits = bMask.data;
+
+  // Seams run along the overlap's longer side
+  const vertical = height >= width;
+  const length = vertical ? height : width;
+  const across = vertical ? width : height;
+  const index = (along: number, side: number) =>
+    vertical ? along * width + side : side * width + along;
+
+  const cost = new Float32Array(length * across);
+  for (let along = 0; along < length; along++) {
+    for (let side = 0; side < across; side++) {
+      const i = index(along, side);
+      const bias = SEAM_CENTER_BIAS * Math.abs(side - (across - 1) / 2);
+      if (!aBits[i] || !bBits[i]) {
+        cost[along * across + side] = bias;
+        continue;
+      }
+      const p = i * 3;
+      cost[along * across + side] =
+        bias +
+        Math.abs(aData[p] - bData[p]) +
+        Math.abs(aData[p + 1] - bData[p + 1]) +
+        Math.abs(aData[p + 2] - bData[p + 2]);
+    }
+  }
+
+  const total = Float32Array.from(cost);
+  const from = new Int8Array(length * across);
+  for (let along = 1; along < length; along++) {
+    for (let side = 0; side < across; side++) {
+      let best = 0;
+      for (const step of [-1, 1]) {
+        const s = side + step;
+        if (s < 0 || s >= across) continue;
+        const prev = (along - 1) * across;
+        if (total[prev + s] < total[prev + side + best]) best = step;
+      }
+      const k = along * across + side;
+      total[k] += total[(along - 1) * across + side + best];
+      from[k] = best;
+    }
+  }
+
+  // Trace the cheapest path back from the far end
+  const seam = new Int32Array(length);
+  let side = 0;
+  const last = (length - 1) * across;
+  for (let s = 1; s < across; s++) {
+    if (total[last + s] < total[last + side]) side = s;
+  }
+  for (let along = length - 1; along >= 0; along--) {
+    seam[along] = side;
+    side += from[along * across + side];
+  }
+
+  // The photo whose centre comes first keeps the near side of the seam
+  const aCenter = vertical
+    ? a.image.cols / 2 - overlap.x
+    : a.image.rows / 2 - overlap.y;
+  const bCenter = vertical
+    ? overlap.dx + b.image.cols / 2 - overlap.x
+    : overlap.dy + b.image.rows / 2 - overlap.y;
+  const aFirst = aCenter <= bCenter;
+  for (let along = 0; along < length; along++) {
+    for (let s = 0; s < across; s++) {
+      const i = index(along, s);
+      if (!aBits[i] || !bBits[i]) continue;
+      if (s <= seam[along] === aFirst) bBits[i] = 0;
+      else aBits[i] = 0;
+    }
+  }
+
+  aMask.copyTo(aMaskRoi);
+  bMask.copyTo(bMaskRoi);
+}
+
+// Gives every overlapping pixel to exactly one photo
+export function findSeams(layers: Layer[], panoWidth: number) {
+  for (let i = 0; i < layers.length; i++) {
+    for (let j = i + 1; j < layers.length; j++) {
+      for (const overlap of overlaps(layers[i], layers[j], panoWidth)) {
+        withScope((scope) => cutSeam(layers[i], layers[j], overlap, scope));
+      }
+    }
+  }
+}
+
+// Adds `src` into `dst` with its top-left corner at (x, y), clipped to `dst`
+function addClipped(dst: Mat, src: Mat, x: number, y: number) {
+  const left = Math.max(0, x);
+  const right = Math.min(dst.cols, x + src.cols);
+  const top = Math.max(0, y);
+  const bottom = Math.min(dst.rows, y + src.rows);
+  if (left >= right || top >= bottom) return;
+
+  const rect = (rx: number, ry: number) =>
+    new cv.Rect(rx, ry, right - left, bottom - top);
+  withScope(({ track }) => {
+    const dstRoi = track(dst.roi(rect(left, top)));
+    const srcRoi = track(src.roi(rect(left - x, top - y)));
+    cv.add(dstRoi, srcRoi, dstRoi);
+  });
+}
+
+// Adds `src` at (x, y) and at every copy `period` pixels to either side, so
+// photos wrap around the 360° seam
+function addRepeated(dst: Mat, src: Mat, x: number, y: number, period: number) {
+  const first = (((x % period) + period) % period) - period;
+  for (let copyX = first; copyX < dst.cols; copyX += period) {
+    addClipped(dst, src, copyX, y);
+  }
+}
+
+function toThreeChannels(mat: Mat): Mat {
+  return withScope(({ track, keep }) => {
+    const channels = track(new cv.MatVector());
+    channels.push_back(mat);
+    channels.push_back(mat);
+    channels.push_back(mat);
+    const merged = track(new cv.Mat());
+    cv.merge(channels, merged);
+    return keep(merged);
+  });
+}
+
+// `mask` as floating-point weights from 0 to 1
+function toWeights(mask: Mat): Mat {
+  return withScope(({ track, keep }) => {
+    const weights = track(new cv.Mat());
+    mask.convertTo(weights, cv.CV_32F, 1 / 255);
+    return keep(weights);
+  });
+}
+
+// Divides the weighted sums, leaving uncovered areas black
+function normalize(sum: Mat, weightSum: Mat): Mat {
+  return withScope(({ track, keep }) => {
+    const weightSum3 = track(toThreeChannels(weightSum));
+    const result = track(new cv.Mat());
+    cv.divide(sum, weightSum3, result);
+    return keep(result);
+  });
+}
+
+// Cross-fades between photos over a short distance either side of each seam
+function featherBlend(
+  layers: Layer[],
+  width: number,
+  height: number,
+  featherWidth: number,
+  { track }: Scope
+): Mat {
+  const sum = track(
+    new cv.Mat(height, width, cv.CV_32FC3, new cv.Scalar(0, 0, 0))
+  );
+  const weightSum = track(
+    new cv.Mat(height, width, cv.CV_32FC1, new cv.Scalar(0))
+  );
+
+  for (const layer of layers) {
+    withScope(({ track }) => {
+      const weight = track(toWeights(layer.mask));
+      const size = new cv.Size(featherWidth, featherWidth);
+      cv.blur(weight, weight, size);
+      const content = track(toWeights(layer.content));
+      cv.multiply(weight, content, weight);
+
+      const rgb = track(new cv.Mat());
+      layer.image.convertTo(rgb, cv.CV_32FC3);
+      const weight3 = track(toThreeChannels(weight));
+      cv.multiply(rgb, weight3, rgb);
+
+      addRepeated(sum, rgb, layer.x, layer.y, width);
+      addRepeated(weightSum, weight, layer.x, layer.y, width);
+    });
+  }
+
+  return track(normalize(sum, weightSum));
+}
+
+function pyramidDown(level: Mat): Mat {
+  return withScope(({ track, keep }) => {
+    const down = track(new cv.Mat());
+    cv.pyrDown(level, down);
+    return keep(down);
+  });
+}
+
+function pyramidUp(level: Mat, like: Mat): Mat {
+  return withScope(({ track, keep }) => {
+    const up = track(new cv.Mat());
+    cv.pyrUp(level, up, new cv.Size(like.cols, like.rows));
+    return keep(up);
+  });
+}
+
+// Extends a photo's colours past the edges of its content, so the low
+// frequency bands don't fade towards black there
+function fillOutside(image: Mat, content: Mat, levels: number): Mat {
+  return withScope(({ track, keep }) => {
+    const content3 = track(toThreeChannels(content));
+    const premultiplied = track(new cv.Mat());
+    cv.multiply(image, content3, premultiplied);
+
+    const colors = [premultiplied];
+    const coverage = [content];
+    for (let k = 0; k < levels; k++) {
+      colors.push(track(pyramidDown(colors[k])));
+      coverage.push(track(pyramidDown(coverage[k])));
+    }
+
+    let filled = track(normalize(colors[levels], coverage[levels]));
+    for (let k = levels - 1; k >= 0; k--) {
+      const up = track(pyramidUp(filled, colors[k]));
+      const uncovered = track(new cv.Mat());
+      coverage[k].convertTo(uncovered, -1, -1, 1);
+      cv.multiply(up, track(toThreeChannels(uncovered)), up);
+      filled = track(new cv.Mat());
+      cv.add(colors[k], up, filled);
+    }
+    return keep(filled);
+  });
+}
+
+// Pads a layer so its position and size divide evenly by `unit`
+function alignLayer(layer: Layer, unit: number, { track }: Scope): Layer {
+  const left = layer.x - Math.floor(layer.x / unit) * unit;
+  const top = layer.y - Math.floor(layer.y / unit) * unit;
+  const right = (unit - ((left + layer.image.cols) % unit)) % unit;
+  const bottom = (unit - ((top + layer.image.rows) % unit)) % unit;
+  const pad = (mat: Mat) => {
+    const padded = track(new cv.Mat());
+    cv.copyMakeBorder(
+      mat,
+      padded,
+      top,
+      bottom,
+      left,
+      right,
+      cv.BORDER_CONSTANT,
+      new cv.Scalar(0, 0, 0, 0)
+    );
+    return padded;
+  };
+  return {
+    image: pad(layer.image),
+    content: pad(layer.content),
+    mask: pad(layer.mask),
+    x: layer.x - left,
+    y: layer.y - top,
+  };
+}
+
+// Blends each frequency band separately: fine detail switches sharply at
+// the seams while broad shading is mixed over a wide area (Burt & Adelson)
+function multiBandBlend(
+  layers: Layer[],
+  width: number,
+  height: number,
+  bands: number,
+  { track }: Scope
+): Mat {
+  const unit = 2 ** bands;
+  // Margin either side of the seam, wide enough for the coarsest band
+  const margin = 4 * unit;
+  const sums: Mat[] = [];
+  const weightSums: Mat[] = [];
+  for (let k = 0; k <= bands; k++) {
+    const rows = height / 2 ** k;
+    const cols = (width + 2 * margin) / 2 ** k;
+    sums.push(
+      track(new cv.Mat(rows, cols, cv.CV_32FC3, new cv.Scalar(0, 0, 0)))
+    );
+    weightSums.push(
+      track(new cv.Mat(rows, cols, cv.CV_32FC1, new cv.Scalar(0)))
+    );
+  }
+
+  for (const original of layers) {
+    withScope((scope) => {
+      const { track } = scope;
+      const layer = alignLayer(original, unit, scope);
+      const rgb = track(new cv.Mat());
+      layer.image.convertTo(rgb, cv.CV_32FC3);
+      const content = track(toWeights(layer.content));
+      const gaussian = [track(fillOutside(rgb, content, bands))];
+      const weights = [track(toWeights(layer.mask))];
+      for (let k = 0; k < bands; k++) {
+        gaussian.push(track(pyramidDown(gaussian[k])));
+        weights.push(track(pyramidDown(weights[k])));
+      }
+
+      for (let k = 0; k <= bands; k++) {
+        // Each band is a level minus the blurrier level below it
+        const band = track(new cv.Mat());
+        if (k < bands) {
+          const up = track(pyramidUp(gaussian[k + 1], gaussian[k]));
+          cv.subtract(gaussian[k], up, band);
+        } else {
+          gaussian[k].copyTo(band);
+        }
+        cv.multiply(band, track(toThreeChannels(weights[k])), band);
+
+        const scale = 2 ** k;
+        const x = (margin + layer.x) / scale;
+        const period = width / scale;
+        addRepeated(sums[k], band, x, layer.y / scale, period);
+        addRepeated(weightSums[k], weights[k], x, layer.y / scale, period);
+      }
+    });
+  }
+
+  // Collapse the blended pyramid from the coarsest band up
+  let result = track(normalize(sums[bands], weightSums[bands]));
+  for (let k = bands - 1; k >= 0; k--) {
+    const band = track(normalize(sums[k], weightSums[k]));
+    const up = track(pyramidUp(result, band));
+    result = track(new cv.Mat());
+    cv.add(up, band, result);
+  }
+
+  // Drop the margins
+  const roi = new cv.Rect(margin, 0, width, height);
+  const blended = track(track(result.roi(roi)).clone());
+  return blended;
+}
+
+// The rows of `layer` between `top` and `bottom` in the panorama, as a
+// layer positioned relative to `origin`, or null if it has none there
+function cropLayer(
+  layer: Layer,
+  top: number,
+  bottom: number,
+  origin: number,
+  { track }: Scope
+): Layer | null {
+  const first = Math.max(0, top - layer.y);
+  const last = Math.min(layer.image.rows, bottom - layer.y);
+  if (first >= last) return null;
+  const rect = new cv.Rect(0, first, layer.image.cols, last - first);
+  return {
+    image: track(layer.image.roi(rect)),
+    content: track(layer.content.roi(rect)),
+    mask: track(layer.mask.roi(rect)),
+    x: layer.x,
+    y: layer.y + first - origin,
+  };
+}
+
+// Blends the layers into an equirectangular image `width` pixels wide (360°)
+// and half as tall (180°), transparent where no photo covers the sphere.
+// The image is built a band of rows at a time and never held whole: each
+// finished 8-bit RGBA tile is passed to `onTile` with its top row, and
+// deleted once it returns.
+export function blendLayers(
+  layers: Layer[],
+  width: number,
+  options: BlendOptions,
+  onTile: (tile: Mat, top: number) => void
+) {
+  const height = Math.round(width / 2);
+  // Rows either side of a tile that still affect it. Multi-band tiles start
+  // on a multiple of the coarsest band's pixel size, like the layers.
+  const reach =
+    options.mode === "multiband"
+      ? 4 * 2 ** options.bands
+      : options.featherWidth;
+
+  for (let top = 0; top < height; top += TILE_ROWS) {
+    const rows = Math.min(TILE_ROWS, height - top);
+    withScope((scope) => {
+      const { track } = scope;
+      const start = Math.max(0, top - reach);
+      const end = Math.min(height, top + rows + reach);
+      const cropped = layers.flatMap(
+        (layer) =>
+          cropLayer(layer, top - reach, top + rows + reach, start, scope) ?? []
+      );
+      const blended =
+        options.mode === "multiband"
+          ? multiBandBlend(cropped, width, end - start, options.bands, scope)
+          : featherBlend(
+              cropped,
+              width,
+              end - start,
+              options.featherWidth,
+              scope
+            );
+      const rgb = track(new cv.Mat());
+      const rect = new cv.Rect(0, top - start, width, rows);
+      track(blended.roi(rect)).convertTo(rgb, cv.CV_8UC3);
+      const tile = track(new cv.Mat());
+      cv.cvtColor(rgb, tile, cv.COLOR_RGB2RGBA);
+
+      const covered = track(
+        new cv.Mat(rows, width, cv.CV_8UC1, new cv.Scalar(0))
+      );
+      for (const layer of cropped) {
+        const y = layer.y + start - top;
+        addRepeated(covered, layer.content, layer.x, y, width);
+      }
+      const uncovered = track(new cv.Mat());
+      cv.bitwise_not(covered, uncovered);
+      tile.setTo(new cv.Scalar(0, 0, 0, 0), uncovered);
+      onTile(tile, top);
+    });
+  }
+}
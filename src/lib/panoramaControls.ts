@@ -0,0 +1,456 @@
+// A yaw/pitch camera for looking around from the centre of a panorama.
+// Dragging turns the view, the wheel and pinching change the field of view
+// and the arrow and WASD keys look around. Device orientation can take over
+// turning on phones.
+import * as THREE from "three";
+import { DEFAULT_FOV, clamp, wrapDegrees } from "./sceneView";
+import type { ViewLimits } from "./sceneView";
+
+// Where the camera looks, in degrees: yaw clockwise from the image's
+// centre, pitch up from the horizon and the vertical field of view
+export interface CameraView {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
+
+export interface PanoramaControlsOptions {
+  // The fraction of turning speed kept every 1/60s after a drag lets go;
+  // 0 stops dead
+  inertia?: number;
+  // Degrees per second to turn once left alone, or 0 not to
+  autoRotateSpeed?: number;
+  // How long to be left alone before turning, in ms
+  autoRotateDelay?: number;
+}
+
+export interface PanoramaControls {
+  getView: () => CameraView;
+  // Looks somewhere at once; unset fields stay as they are
+  lookAt: (view: Partial<CameraView>) => void;
+  // Turns smoothly, the short way round. Resolves when done or when
+  // interrupted by the user or another animation.
+  animateTo: (view: Partial<CameraView>, duration?: number) => Promise<void>;
+  setEnabled: (enabled: boolean) => void;
+  setInertia: (inertia: number) => void;
+  setAutoRotate: (speed: number, delay?: number) => void;
+  // Resolves to whether device orientation is now steering, which needs
+  // the sensor and, on iOS, the visitor's permission
+  setDeviceOrientation: (enabled: boolean) => Promise<boolean>;
+  // Advances inertia, held keys and animations; call once per frame
+  update: (now: number) => void;
+  dispose: () => void;
+}
+
+// How fast tours turn by themselves when left alone, in degrees per second
+export const TOUR_AUTO_ROTATE_SPEED = 3;
+
+const DEFAULT_INERTIA = 0.9;
+const DEFAULT_AUTO_ROTATE_DELAY = 5000;
+const DEFAULT_ANIMATION_MS = 1000;
+// Degrees of FOV per pixel of wheel scrolling
+const WHEEL_FOV_SPEED = 0.05;
+// Degrees per second while a key is held
+const KEY_TURN_SPEED = 90;
+// Looking straight up or down leaves no way to tell which way is forward
+const MAX_PITCH = 89.9;
+// Below this many degrees per ms a coasting drag stops
+const MIN_SPEED = 0.001;
+// A drag that held still this long before letting go doesn't coast
+const RELEASE_MS = 60;
+// The longest frame advanced at once, so a backgrounded tab doesn't jump
+const MAX_FRAME_MS = 100;
+
+const KEY_DIRECTIONS: Record<string, { yaw: number; pitch: number }> = {
+  ArrowLeft: { yaw: -1, pitch: 0 },
+  ArrowRight: { yaw: 1, pitch: 0 },
+  ArrowUp: { yaw: 0, pitch: 1 },
+  ArrowDown: { yaw: 0, pitch: -1 },
+  a: { yaw: -1, pitch: 0 },
+  d: { yaw: 1, pitch: 0 },
+  w: { yaw: 0, pitch: 1 },
+  s: { yaw: 0, pitch: -1 },
+};
+
+export function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+// The direction `yaw` degrees clockwise from the image's centre and
+// `pitch` degrees above the horizon. Column u of the image lies at angle
+// 2πu around the y axis.
+export function headingDirection(yaw: number, pitch = 0): THREE.Vector3 {
+  const angle = 2 * Math.PI * (0.5 + yaw / 360);
+  const elevation = THREE.MathUtils.degToRad(pitch);
+  return new THREE.Vector3(
+    Math.cos(angle) * Math.cos(elevation),
+    Math.sin(elevation),
+    Math.sin(angle) * Math.cos(elevation)
+  );
+}
+
+// The inverse of headingDirection, with yaw in (-180, 180]
+export function yawPitch(direction: THREE.Vector3) {
+  const { x, y, z } = direction.clone().normalize();
+  return {
+    yaw: wrapDegrees(THREE.MathUtils.radToDeg(Math.atan2(z, x)) - 180),
+    pitch: THREE.MathUtils.radToDeg(Math.asin(clamp(y, -1, 1))),
+  };
+}
+
+// Where the back of a device points, as three.js's old
+// DeviceOrientationControls worked it out: the sensor's Z-X'-Y'' angles,
+// turned so the camera looks out of the back rather than down, then
+// corrected for the screen's rotation
+function deviceDirection(event: DeviceOrientationEvent): THREE.Vector3 {
+  const { degToRad } = THREE.MathUtils;
+  const euler = new THREE.Euler(
+    degToRad(event.beta ?? 0),
+    degToRad(event.alpha ?? 0),
+    -degToRad(event.gamma ?? 0),
+    "YXZ"
+  );
+  const screenAngle = degToRad(window.screen.orientation?.angle ?? 0);
+  const quaternion = new THREE.Quaternion()
+    .setFromEuler(euler)
+    .multiply(new THREE.Quaternion(-Math.SQRT1_2, 0, 0, Math.SQRT1_2))
+    .multiply(
+      new THREE.Quaternion().setFromAxisAngle(
+        new THREE.Vector3(0, 0, 1),
+        -screenAngle
+      )
+    );
+  return new THREE.Vector3(0, 0, -1).applyQuaternion(quaternion);
+}
+
+// Keys typed into text fields are for the field, not the view
+export function isEditable(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+// Steers `camera`, which stays at the origin, from input on `element`.
+// `limits` gives the scene's zoom and pitch limits at a field of view.
+export function createPanoramaControls(
+  camera: THREE.PerspectiveCamera,
+  element: HTMLElement,
+  limits: (fov: number) => ViewLimits,
+  options: PanoramaControlsOptions = {}
+): PanoramaControls {
+  let yaw = 0;
+  let pitch = 0;
+  let fov = camera.fov;
+  let enabled = true;
+  let inertia = options.inertia ?? DEFAULT_INERTIA;
+  let autoRotateSpeed = options.autoRotateSpeed ?? 0;
+  let autoRotateDelay = options.autoRotateDelay ?? DEFAULT_AUTO_ROTATE_DELAY;
+
+  // Degrees per ms a released drag keeps turning at
+  const velocity = { yaw: 0, pitch: 0 };
+  let lastInteraction = performance.now();
+  let lastFrame: number | null = null;
+  const pointers = new Map<number, { x: number; y: number; time: number }>();
+  let pinch: { distance: number; fov: number } | null = null;
+  const heldKeys = new Set<string>();
+  let animation: {
+    from: CameraView;
+    to: CameraView;
+    start: number;
+    duration: number;
+    resolve: () => void;
+  } | null = null;
+  // The last device reading; only its changes turn the view sideways, so
+  // the visitor can still drag round to face a different way
+  let lastDeviceYaw: number | null = null;
+  let deviceOrientation = false;
+
+  const apply = () => {
+    const { minPitch, maxPitch } = limits(fov);
+    pitch = clamp(
+      pitch,
+      Math.max(minPitch, -MAX_PITCH),
+      Math.min(maxPitch, MAX_PITCH)
+    );
+    yaw = wrapDegrees(yaw);
+    camera.lookAt(headingDirection(yaw, pitch));
+    if (camera.fov !== fov) {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  const stopAnimation = () => {
+    animation?.resolve();
+    animation = null;
+  };
+
+  // Anything the visitor does stops coasting, animation and auto-rotation
+  const interact = () => {
+    lastInteraction = performance.now();
+    velocity.yaw = velocity.pitch = 0;
+    stopAnimation();
+  };
+
+  const zoomTo = (target: number) => {
+    const { minFov, maxFov } = limits(fov);
+    fov = clamp(target, minFov, maxFov);
+    apply();
+  };
+
+  const pinchDistance = () => {
+    const [a, b] = [...pointers.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (!enabled) return;
+    if (event.pointerType === "mouse" && event.button !== 0) return;
+    interact();
+    pointers.set(event.pointerId, {
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+    });
+    element.setPointerCapture(event.pointerId);
+    if (pointers.size === 2) {
+      pinch = { distance: pinchDistance(), fov };
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous || !enabled) return;
+    pointers.set(event.pointerId, {
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+    });
+    lastInteraction = performance.now();
+
+    if (pinch) {
+      const distance = pinchDistance();
+      if (distance > 0) zoomTo((pinch.fov * pinch.distance) / distance);
+      return;
+    }
+    // The image follows the pointer: a pixel is as many degrees as the
+    // view fits across the element's height
+    const degreesPerPixel = fov / element.clientHeight;
+    const deltaYaw = -(event.clientX - previous.x) * degreesPerPixel;
+    const deltaPitch = (event.clientY - previous.y) * degreesPerPixel;
+    yaw += deltaYaw;
+    if (!deviceOrientation) pitch += deltaPitch;
+    apply();
+
+    const elapsed = event.timeStamp - previous.time;
+    if (elapsed > 0) {
+      velocity.yaw = deltaYaw / elapsed;
+      velocity.pitch = deviceOrientation ? 0 : deltaPitch / elapsed;
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    const released = pointers.get(event.pointerId);
+    if (!released) return;
+    pointers.delete(event.pointerId);
+    if (element.hasPointerCapture(event.pointerId)) {
+      element.releasePointerCapture(event.pointerId);
+    }
+    if (pinch) {
+      // The remaining finger shouldn't coast or jump
+      pinch = pointers.size === 2 ? { distance: pinchDistance(), fov } : null;
+      velocity.yaw = velocity.pitch = 0;
+    } else if (event.timeStamp - released.time > RELEASE_MS) {
+      velocity.yaw = velocity.pitch = 0;
+    }
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    if (!enabled) return;
+    interact();
+    zoomTo(fov + event.deltaY * WHEEL_FOV_SPEED);
+  };
+
+  const keyName = (event: KeyboardEvent) =>
+    event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const key = keyName(event);
+    if (!enabled || !(key in KEY_DIRECTIONS)) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isEditable(event.target)) return;
+    interact();
+    heldKeys.add(key);
+    event.preventDefault();
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    heldKeys.delete(keyName(event));
+  };
+
+  // Losing focus loses the key-up events too
+  const handleBlur = () => heldKeys.clear();
+
+  const handleOrientation = (event: DeviceOrientationEvent) => {
+    if (event.alpha === null || event.beta === null) return;
+    const device = yawPitch(deviceDirection(event));
+    if (enabled && lastDeviceYaw !== null) {
+      yaw += wrapDegrees(device.yaw - lastDeviceYaw);
+      pitch = device.pitch;
+      apply();
+    }
+    lastDeviceYaw = device.yaw;
+    lastInteraction = performance.now();
+  };
+
+  element.addEventListener("pointerdown", handlePointerDown);
+  element.addEventListener("pointermove", handlePointerMove);
+  element.addEventListener("pointerup", handlePointerUp);
+  element.addEventListener("pointercancel", handlePointerUp);
+  element.addEventListener("wheel", handleWheel, { passive: false });
+  window.addEventListener("keydown", handleKeyDown);
+  window.addEventListener("keyup", handleKeyUp);
+  window.addEventListener("blur", handleBlur);
+  // Touch scrolling and pinch-zooming the page would fight the controls
+  element.style.touchAction = "none";
+
+  const direction = new THREE.Vector3();
+  camera.getWorldDirection(direction);
+  ({ yaw, pitch } = yawPitch(direction));
+  apply();
+
+  return {
+    getView: () => ({ yaw, pitch, fov }),
+    lookAt: (view) => {
+      yaw = view.yaw ?? yaw;
+      pitch = view.pitch ?? pitch;
+      fov = view.fov ?? fov;
+      apply();
+    },
+    animateTo: (view, duration = DEFAULT_ANIMATION_MS) =>
+      new Promise<void>((resolve) => {
+        stopAnimation();
+        velocity.yaw = velocity.pitch = 0;
+        const from = { yaw, pitch, fov };
+        const to = {
+          yaw: yaw + wrapDegrees((view.yaw ?? yaw) - yaw),
+          pitch: view.pitch ?? pitch,
+          fov: view.fov ?? fov,
+        };
+        animation = { from, to, start: performance.now(), duration, resolve };
+      }),
+    setEnabled: (value) => {
+      enabled = value;
+      if (enabled) return;
+      velocity.yaw = velocity.pitch = 0;
+      heldKeys.clear();
+      pinch = null;
+      pointers.forEach((_, pointerId) => {
+        if (element.hasPointerCapture(pointerId)) {
+          element.releasePointerCapture(pointerId);
+        }
+      });
+      pointers.clear();
+    },
+    setInertia: (value) => {
+      inertia = clamp(value, 0, 0.99);
+    },
+    setAutoRotate: (speed, delay = autoRotateDelay) => {
+      autoRotateSpeed = speed;
+      autoRotateDelay = delay;
+    },
+    setDeviceOrientation: async (value) => {
+      if (!value) {
+        window.removeEventListener("deviceorientation", handleOrientation);
+        deviceOrientation = false;
+        return false;
+      }
+      if (typeof DeviceOrientationEvent === "undefined") return false;
+      // iOS asks the visitor first, and only from a click or tap
+      const { requestPermission } = DeviceOrientationEvent as unknown as {
+        requestPermission?: () => Promise<PermissionState>;
+      };
+      if (requestPermission) {
+        try {
+          if ((await requestPermission()) !== "granted") return false;
+        } catch (err) {
+          console.warn("Device orientation was refused:", err);
+          return false;
+        }
+      }
+      lastDeviceYaw = null;
+      deviceOrientation = true;
+      window.addEventListener("deviceorientation", handleOrientation);
+      return true;
+    },
+    update: (now) => {
+      const elapsed = lastFrame === null ? 0 : now - lastFrame;
+      const dt = Math.min(MAX_FRAME_MS, Math.max(0, elapsed));
+      lastFrame = now;
+
+      if (animation) {
+        const { from, to, start, duration, resolve } = animation;
+        const t = duration > 0 ? clamp((now - start) / duration, 0, 1) : 1;
+        const eased = easeInOut(t);
+        yaw = from.yaw + (to.yaw - from.yaw) * eased;
+        pitch = from.pitch + (to.pitch - from.pitch) * eased;
+        fov = from.fov + (to.fov - from.fov) * eased;
+        apply();
+        if (t >= 1) {
+          animation = null;
+          resolve();
+        }
+        return;
+      }
+      if (!enabled || dt === 0) return;
+
+      let turned = false;
+      heldKeys.forEach((key) => {
+        const direction = KEY_DIRECTIONS[key];
+        // Narrower views turn slower so things don't fly past
+        const speed = ((KEY_TURN_SPEED * dt) / 1000) * (fov / DEFAULT_FOV);
+        yaw += direction.yaw * speed;
+        if (!deviceOrientation) pitch += direction.pitch * speed;
+        turned = true;
+      });
+
+      if (
+        pointers.size === 0 &&
+        (Math.abs(velocity.yaw) > MIN_SPEED ||
+          Math.abs(velocity.pitch) > MIN_SPEED)
+      ) {
+        yaw += velocity.yaw * dt;
+        pitch += velocity.pitch * dt;
+        const decay = inertia ** (dt / (1000 / 60));
+        velocity.yaw *= decay;
+        velocity.pitch *= decay;
+        turned = true;
+      } else if (
+        autoRotateSpeed !== 0 &&
+        !deviceOrientation &&
+        pointers.size === 0 &&
+        heldKeys.size === 0 &&
+        now - lastInteraction > autoRotateDelay
+      ) {
+        yaw += (autoRotateSpeed * dt) / 1000;
+        turned = true;
+      }
+      if (turned) apply();
+    },
+    dispose: () => {
+      stopAnimation();
+      element.removeEventListener("pointerdown", handlePointerDown);
+      element.removeEventListener("pointermove", handlePointerMove);
+      element.removeEventListener("pointerup", handlePointerUp);
+      element.removeEventListener("pointercancel", handlePointerUp);
+      element.removeEventListener("wheel", handleWheel);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("deviceorientation", handleOrientation);
+    },
+  };
+}
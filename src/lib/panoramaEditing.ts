@@ -0,0 +1,488 @@
+// Post-processing for finished equirectangular panoramas: levelling the
+// horizon, choosing the starting heading and tidying up the parts the photos
+// didn't cover. Everything works on plain ImageData, so the editor previews
+// on the main thread and the stitching worker applies the same edits at
+// full size.
+
+export type BorderMode = "keep" | "crop" | "fill";
+
+export interface PanoramaEdits {
+  // Degrees to turn the panorama so the starting view faces somewhere else
+  yaw: number;
+  // Degrees to tilt it forward and roll it sideways to level the horizon
+  pitch: number;
+  roll: number;
+  // What to do with the transparent areas no photo covered
+  borders: BorderMode;
+}
+
+export const NO_EDITS: PanoramaEdits = {
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  borders: "keep",
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Only edges this close to vertical are taken as vertical lines in the scene
+const MAX_EDGE_SLOPE = 0.3;
+// Gradient strength (Sobel, 0-255 intensities) an edge needs to count
+const MIN_EDGE_STRENGTH = 80;
+// Vertical lines bend near the poles; only edges this close to the horizon
+// are used, in radians
+const MAX_EDGE_LATITUDE = 1;
+// Edges disagreeing with the first fit by more than this slope are dropped
+const MAX_SLOPE_RESIDUAL = 0.1;
+// Keeps the fit sensible when the photos only cover a narrow arc
+const TILT_DAMPING = 0.01;
+const LEVEL_PASSES = 3;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export function hasEdits(edits: PanoramaEdits): boolean {
+  return (
+    edits.yaw !== 0 ||
+    edits.pitch !== 0 ||
+    edits.roll !== 0 ||
+    edits.borders !== "keep"
+  );
+}
+
+// Turns an output direction into the source direction it shows: yaw first,
+// then the levelling, so changing the heading keeps the horizon level
+function rotationMatrix({ yaw, pitch, roll }: PanoramaEdits): number[] {
+  const [cy, sy] = [Math.cos(toRadians(yaw)), Math.sin(toRadians(yaw))];
+  const [cp, sp] = [Math.cos(toRadians(pitch)), Math.sin(toRadians(pitch))];
+  const [cr, sr] = [Math.cos(toRadians(roll)), Math.sin(toRadians(roll))];
+  const multiply = (a: number[], b: number[]) =>
+    Array.from({ length: 9 }, (_, i) => {
+      const row = Math.floor(i / 3);
+      const col = i % 3;
+      return (
+        a[row * 3] * b[col] +
+        a[row * 3 + 1] * b[3 + col] +
+        a[row * 3 + 2] * b[6 + col]
+      );
+    });
+  const rollMatrix = [cr, -sr, 0, sr, cr, 0, 0, 0, 1];
+  const pitchMatrix = [1, 0, 0, 0, cp, -sp, 0, sp, cp];
+  const yawMatrix = [cy, 0, sy, 0, 1, 0, -sy, 0, cy];
+  return multiply(multiply(rollMatrix, pitchMatrix), yawMatrix);
+}
+
+// Resamples the panorama as seen after the yaw, pitch and roll in `edits`.
+// Colours are interpolated weighted by alpha, so edges don't pick up the
+// black of the transparent areas.
+export function rotatePanorama(
+  source: ImageData,
+  edits: PanoramaEdits
+): ImageData {
+  const { width, height, data } = source;
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const m = rotationMatrix(edits);
+
+  const sinLon = new Float64Array(width);
+  const cosLon = new Float64Array(width);
+  for (let u = 0; u < width; u++) {
+    const lon = ((u + 0.5) / width - 0.5) * 2 * Math.PI;
+    sinLon[u] = Math.sin(lon);
+    cosLon[u] = Math.cos(lon);
+  }
+
+  for (let v = 0; v < height; v++) {
+    const lat = (0.5 - (v + 0.5) / height) * Math.PI;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+    for (let u = 0; u < width; u++) {
+      const x = cosLat * sinLon[u];
+      const z = cosLat * cosLon[u];
+      const sx = m[0] * x + m[1] * sinLat + m[2] * z;
+      const sy = m[3] * x + m[4] * sinLat + m[5] * z;
+      const sz = m[6] * x + m[7] * sinLat + m[8] * z;
+      const lon = Math.atan2(sx, sz);
+      const lat2 = Math.asin(Math.max(-1, Math.min(1, sy)));
+
+      // Bilinear sample, wrapping around the 360° seam
+      const fu = (lon / (2 * Math.PI) + 0.5) * width - 0.5;
+      const fv = Math.max(
+        0,
+        Math.min(height - 1, (0.5 - lat2 / Math.PI) * height - 0.5)
+      );
+      const u0 = Math.floor(fu);
+      const v0 = Math.floor(fv);
+      const v1 = Math.min(height - 1, v0 + 1);
+      const du = fu - u0;
+      const dv = fv - v0;
+      const left = ((u0 % width) + width) % width;
+      const right = (left + 1) % width;
+      const i00 = (v0 * width + left) * 4;
+      const i01 = (v0 * width + right) * 4;
+      const i10 = (v1 * width + left) * 4;
+      const i11 = (v1 * width + right) * 4;
+      const w00 = (1 - du) * (1 - dv) * data[i00 + 3];
+      const w01 = du * (1 - dv) * data[i01 + 3];
+      const w10 = (1 - du) * dv * data[i10 + 3];
+      const w11 = du * dv * data[i11 + 3];
+      const alpha = w00 + w01 + w10 + w11;
+      const mix = (c: number) =>
+        (w00 * data[i00 + c] +
+          w01 * data[i01 + c] +
+          w10 * data[i10 + c] +
+          w11 * data[i11 + c]) /
+        alpha;
+      const o = (v * width + u) * 4;
+      if (alpha > 0) {
+        out[o] = mix(0);
+        out[o + 1] = mix(1);
+        out[o + 2] = mix(2);
+        out[o + 3] = alpha;
+      }
+    }
+  }
+  return output;
+}
+
+// The largest rectangle of fully opaque pixels. It may wrap around the 360°
+// seam, so `x + width` can run past the right edge.
+export function largestCoveredRect(image: ImageData): Rect | null {
+  const { width, height, data } = image;
+  // Opaque run length ending at the current row, for each column, laid
+  // out twice so rectangles can cross the seam
+  const runs = new Int32Array(width * 2 + 1);
+  let best: Rect | null = null;
+  let bestArea = 0;
+  const stack: number[] = [];
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const opaque = data[(v * width + u) * 4 + 3] === 255;
+      runs[u] = opaque ? runs[u] + 1 : 0;
+      runs[u + width] = runs[u];
+    }
+
+    // Largest rectangle under the histogram of runs, at most `width` wide
+    stack.length = 0;
+    for (let u = 0; u <= width * 2; u++) {
+      const run = u < width * 2 ? runs[u] : 0;
+      while (stack.length > 0 && runs[stack[stack.length - 1]] >= run) {
+        const h = runs[stack.pop()!];
+        const left = stack.length > 0 ? stack[stack.length - 1] + 1 : 0;
+        const w = Math.min(width, u - left);
+        if (h * w > bestArea) {
+          bestArea = h * w;
+          best = { x: left % width, y: v - h + 1, width: w, height: h };
+        }
+      }
+      stack.push(u);
+    }
+  }
+  return best;
+}
+
+// Clears everything outside the largest fully covered rectangle, so the
+// panorama ends in straight edges instead of the photos' ragged outline.
+// It stays 2:1 so it still wraps the whole sphere.
+export function cropToCovered(image: ImageData): ImageData {
+  const rect = largestCoveredRect(image);
+  const { width, height, data } = image;
+  const output = new ImageData(width, height);
+  if (!rect) return output;
+  for (let v = rect.y; v < rect.y + rect.height; v++) {
+    for (let k = 0; k < rect.width; k++) {
+      const i = (v * width + ((rect.x + k) % width)) * 4;
+      output.data.set(data.subarray(i, i + 4), i);
+    }
+  }
+  return output;
+}
+
+// A level of the fill pyramid: premultiplied colour and coverage, averaged
+interface FillLevel {
+  width: number;
+  height: number;
+  color: Float32Array;
+  coverage: Float32Array;
+}
+
+function shrink(
+  width: number,
+  height: number,
+  color: (i: number, c: number) => number,
+  coverage: (i: number) => number
+): FillLevel {
+  const w = Math.ceil(width / 2);
+  const h = Math.ceil(height / 2);
+  const level = {
+    width: w,
+    height: h,
+    color: new Float32Array(w * h * 3),
+    coverage: new Float32Array(w * h),
+  };
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const o = y * w + x;
+      let count = 0;
+      for (const [dx, dy] of [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [1, 1],
+      ]) {
+        const sx = 2 * x + dx;
+        const sy = 2 * y + dy;
+        if (sx >= width || sy >= height) continue;
+        const i = sy * width + sx;
+        for (let c = 0; c < 3; c++) level.color[o * 3 + c] += color(i, c);
+        level.coverage[o] += coverage(i);
+        count++;
+      }
+      for (let c = 0; c < 3; c++) level.color[o * 3 + c] /= count;
+      level.coverage[o] /= count;
+    }
+  }
+  return level;
+}
+
+// Bilinear lookup into a coarser level at fine pixel (x, y)
+function sampleCoarse(
+  coarse: Float32Array,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+  c: number
+): number {
+  const fx = (x + 0.5) / 2 - 0.5;
+  const fy = Math.max(0, Math.min(h - 1, (y + 0.5) / 2 - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const y1 = Math.min(h - 1, y0 + 1);
+  const dx = fx - x0;
+  const dy = fy - y0;
+  const left = ((x0 % w) + w) % w;
+  const right = (left + 1) % w;
+  const at = (px: number, py: number) => coarse[(py * w + px) * 3 + c];
+  return (
+    (at(left, y0) * (1 - dx) + at(right, y0) * dx) * (1 - dy) +
+    (at(left, y1) * (1 - dx) + at(right, y1) * dx) * dy
+  );
+}
+
+// Paints the transparent areas with colours spread smoothly from the
+// photos around them, by averaging down a pyramid and filling back up
+export function fillUncovered(image: ImageData): ImageData {
+  const { width, height, data } = image;
+  const levels = [
+    shrink(
+      width,
+      height,
+      (i, c) => (data[i * 4 + c] * data[i * 4 + 3]) / 255,
+      (i) => data[i * 4 + 3] / 255
+    ),
+  ];
+  while (levels[levels.length - 1].width > 1) {
+    const { width: w, height: h, color, coverage } = levels[levels.length - 1];
+    levels.push(
+      shrink(
+        w,
+        h,
+        (i, c) => color[i * 3 + c],
+        (i) => coverage[i]
+      )
+    );
+  }
+
+  // The coarsest level is divided through; each finer one fills what it
+  // doesn't cover from the level below
+  let filled = Float32Array.from(levels[levels.length - 1].color);
+  const coarsest = levels[levels.length - 1];
+  for (let i = 0; i < coarsest.coverage.length; i++) {
+    const weight = coarsest.coverage[i];
+    for (let c = 0; c < 3; c++) {
+      filled[i * 3 + c] = weight > 0 ? filled[i * 3 + c] / weight : 0;
+    }
+  }
+  for (let k = levels.length - 2; k >= 0; k--) {
+    const level = levels[k];
+    const below = levels[k + 1];
+    const next = new Float32Array(level.width * level.height * 3);
+    for (let y = 0; y < level.height; y++) {
+      for (let x = 0; x < level.width; x++) {
+        const i = y * level.width + x;
+        const uncovered = 1 - level.coverage[i];
+        for (let c = 0; c < 3; c++) {
+          const up = sampleCoarse(filled, below.width, below.height, x, y, c);
+          next[i * 3 + c] = level.color[i * 3 + c] + uncovered * up;
+        }
+      }
+    }
+    filled = next;
+  }
+
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const top = levels[0];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const alpha = data[i * 4 + 3] / 255;
+      for (let c = 0; c < 3; c++) {
+        const up = sampleCoarse(filled, top.width, top.height, x, y, c);
+        out[i * 4 + c] = data[i * 4 + c] * alpha + up * (1 - alpha);
+      }
+      out[i * 4 + 3] = 255;
+    }
+  }
+  return output;
+}
+
+export function applyEdits(source: ImageData, edits: PanoramaEdits): ImageData {
+  const rotated =
+    edits.yaw || edits.pitch || edits.roll
+      ? rotatePanorama(source, edits)
+      : source;
+  if (edits.borders === "crop") return cropToCovered(rotated);
+  if (edits.borders === "fill") return fillUncovered(rotated);
+  return rotated;
+}
+
+// Estimates the pitch and roll in degrees that level the horizon, from the
+// slant of lines that should be vertical. When the camera was tilted,
+// vertical lines lean by an amount that varies around the panorama as
+// a·cos(longitude) + b·sin(longitude), and a and b give the tilt.
+function measureTilt(image: ImageData): { pitch: number; roll: number } | null {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      data[i * 4 + 3] === 255
+        ? 0.299 * data[i * 4] +
+          0.587 * data[i * 4 + 1] +
+          0.114 * data[i * 4 + 2]
+        : -1;
+  }
+
+  interface Edge {
+    cos: number;
+    sin: number;
+    slope: number;
+    weight: number;
+  }
+  const edges: Edge[] = [];
+  for (let v = 1; v < height - 1; v++) {
+    const lat = (0.5 - (v + 0.5) / height) * Math.PI;
+    if (Math.abs(lat) > MAX_EDGE_LATITUDE) continue;
+    const cosLat2 = Math.cos(lat) ** 2;
+    for (let u = 1; u < width - 1; u++) {
+      const at = (du: number, dv: number) => gray[(v + dv) * width + u + du];
+      let opaque = true;
+      for (let dv = -1; dv <= 1 && opaque; dv++) {
+        for (let du = -1; du <= 1; du++) {
+          if (at(du, dv) < 0) opaque = false;
+        }
+      }
+      if (!opaque) continue;
+
+      const gx =
+        at(1, -1) +
+        2 * at(1, 0) +
+        at(1, 1) -
+        at(-1, -1) -
+        2 * at(-1, 0) -
+        at(-1, 1);
+      const gy =
+        at(-1, 1) +
+        2 * at(0, 1) +
+        at(1, 1) -
+        at(-1, -1) -
+        2 * at(0, -1) -
+        at(1, -1);
+      const strength = Math.hypot(gx, gy);
+      if (strength < MIN_EDGE_STRENGTH) continue;
+      // The edge runs across the gradient; its sideways drift per row
+      const slope = -gy / gx;
+      if (!(Math.abs(slope) <= MAX_EDGE_SLOPE)) continue;
+
+      const lon = ((u + 0.5) / width - 0.5) * 2 * Math.PI;
+      edges.push({
+        cos: Math.cos(lon),
+        sin: Math.sin(lon),
+        // Undo the stretching of longitude away from the horizon
+        slope: slope * cosLat2,
+        weight: strength,
+      });
+    }
+  }
+  if (edges.length < 50) return null;
+
+  // Weighted least squares for slope = a·cos + b·sin, damped towards level
+  const fit = (used: Edge[]) => {
+    let cc = 0;
+    let cs = 0;
+    let ss = 0;
+    let cy = 0;
+    let sy = 0;
+    let total = 0;
+    for (const e of used) {
+      cc += e.weight * e.cos * e.cos;
+      cs += e.weight * e.cos * e.sin;
+      ss += e.weight * e.sin * e.sin;
+      cy += e.weight * e.cos * e.slope;
+      sy += e.weight * e.sin * e.slope;
+      total += e.weight;
+    }
+    cc += TILT_DAMPING * total;
+    ss += TILT_DAMPING * total;
+    const det = cc * ss - cs * cs;
+    return {
+      a: (ss * cy - cs * sy) / det,
+      b: (cc * sy - cs * cy) / det,
+    };
+  };
+  let { a, b } = fit(edges);
+  // Refit without the edges that weren't vertical in the scene
+  const inliers = edges.filter(
+    (e) => Math.abs(e.slope - a * e.cos - b * e.sin) <= MAX_SLOPE_RESIDUAL
+  );
+  if (inliers.length < 50) return null;
+  ({ a, b } = fit(inliers));
+
+  // The scene's up direction, in the panorama's frame
+  const length = Math.hypot(a, 1, b);
+  const upX = -a / length;
+  const upZ = b / length;
+  const pitch = Math.asin(upZ);
+  const roll = Math.asin(-upX / Math.cos(pitch));
+  return { pitch: toDegrees(pitch), roll: toDegrees(roll) };
+}
+
+// The pitch and roll that level the horizon, or null if there aren't enough
+// clear vertical edges to tell. Each pass measures what tilt is left after
+// the previous ones, since a single fit underestimates large tilts.
+export function detectHorizon(
+  image: ImageData
+): { pitch: number; roll: number } | null {
+  let pitch = 0;
+  let roll = 0;
+  for (let pass = 0; pass < LEVEL_PASSES; pass++) {
+    const levelled =
+      pass === 0 ? image : rotatePanorama(image, { ...NO_EDITS, pitch, roll });
+    const tilt = measureTilt(levelled);
+    if (!tilt) {
+      if (pass === 0) return null;
+      break;
+    }
+    pitch += tilt.pitch;
+    roll += tilt.roll;
+  }
+  const round = (degrees: number) => Math.round(degrees * 10) / 10;
+  return { pitch: round(pitch), roll: round(roll) };
+}
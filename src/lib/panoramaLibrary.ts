@@ -0,0 +1,76 @@
+// Details and usage of the panoramas saved in a tour's library
+import type { SavedPanorama } from "../components/ImageTree";
+import { fetchImageBlob } from "./imageStore";
+import { getNodes } from "./tourGraph";
+import type { ImageNodeData, TourGraph } from "./tourGraph";
+
+export interface PanoramaDetails {
+  width: number;
+  height: number;
+  // File size in bytes
+  size: number;
+  // Small JPEG data URL, cheap to show in lists
+  thumbnailUrl: string;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+export async function describePanorama(
+  imageUrl: string
+): Promise<PanoramaDetails> {
+  const blob = await fetchImageBlob(imageUrl);
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const width = Math.min(THUMBNAIL_WIDTH, bitmap.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = Math.max(
+      1,
+      Math.round((width * bitmap.height) / bitmap.width)
+    );
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, width, canvas.height);
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      size: blob.size,
+      thumbnailUrl: canvas.toDataURL("image/jpeg", 0.8),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Panoramas saved before the library kept details have none stored
+export function hasDetails(
+  panorama: SavedPanorama
+): panorama is SavedPanorama & PanoramaDetails {
+  return (
+    panorama.width !== undefined &&
+    panorama.height !== undefined &&
+    panorama.size !== undefined &&
+    panorama.thumbnailUrl !== undefined
+  );
+}
+
+// The scenes showing the panorama's image
+export function findPanoramaUsage(
+  graph: TourGraph,
+  panorama: SavedPanorama
+): ImageNodeData[] {
+  return getNodes(graph).filter((node) => node.imageUrl === panorama.imageUrl);
+}
+
+// Matches the name or any of the source photos' names
+export function matchesSearch(panorama: SavedPanorama, query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [panorama.name, ...(panorama.sourceImages ?? [])].some((text) =>
+    text.toLowerCase().includes(needle)
+  );
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
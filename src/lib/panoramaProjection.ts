@@ -0,0 +1,163 @@
+// Spherical projection for stitching. Photos are reprojected onto the sphere
+// so that turning the camera becomes a plain translation, which places them
+// directly in the full 2:1 equirectangular image.
+import { cv, withScope } from "./opencv";
+import type { Mat } from "./opencv";
+
+// A photo reprojected onto the sphere. Pixel (u, v) of `image` looks at yaw
+// (u - centerX) / scale and pitch (v - centerY) / scale, in radians.
+export interface SphericalImage {
+  image: Mat;
+  centerX: number;
+  centerY: number;
+}
+
+// Where a spherical image sits in the panorama, in radians from the front
+export interface Placement {
+  sphere: SphericalImage;
+  yaw: number;
+  pitch: number;
+}
+
+// How much of the sphere a panorama actually covers, in degrees
+export interface Coverage {
+  horizontal: number;
+  vertical: number;
+}
+
+export function focalLengthFromFov(width: number, fovDegrees: number): number {
+  return width / 2 / Math.tan((fovDegrees * Math.PI) / 360);
+}
+
+// Reprojects a pinhole photo with the given focal length (in pixels) onto
+// the sphere, at `scale` pixels per radian. Areas outside the photo are
+// transparent.
+export function warpSpherical(
+  src: Mat,
+  focal: number,
+  scale: number
+): SphericalImage {
+  return withScope(({ track, keep }) => {
+    // Shrink first so remap doesn't alias when the output is smaller
+    const source = track(new cv.Mat());
+    let f = focal;
+    if (scale < focal) {
+      const k = scale / focal;
+      cv.resize(src, source, new cv.Size(0, 0), k, k, cv.INTER_AREA);
+      f = scale;
+    } else {
+      src.copyTo(source);
+    }
+
+    const cx = source.cols / 2;
+    const cy = source.rows / 2;
+    const width = Math.ceil(2 * scale * Math.atan(cx / f));
+    const height = Math.ceil(2 * scale * Math.atan(cy / f));
+    const centerX = width / 2;
+    const centerY = height / 2;
+
+    const mapX = track(new cv.Mat(height, width, cv.CV_32FC1));
+    const mapY = track(new cv.Mat(height, width, cv.CV_32FC1));
+    const xs = mapX.data32F;
+    const ys = mapY.data32F;
+    for (let v = 0; v < height; v++) {
+      const pitch = (v - centerY) / scale;
+      const cosPitch = Math.cos(pitch);
+      const sinPitch = Math.sin(pitch);
+      for (let u = 0; u < width; u++) {
+        const yaw = (u - centerX) / scale;
+        const z = Math.cos(yaw) * cosPitch;
+        const i = v * width + u;
+        xs[i] = cx + (f * Math.sin(yaw) * cosPitch) / z;
+        ys[i] = cy + (f * sinPitch) / z;
+      }
+    }
+
+    const image = track(new cv.Mat());
+    cv.remap(
+      source,
+      image,
+      mapX,
+      mapY,
+      cv.INTER_LINEAR,
+      cv.BORDER_CONSTANT,
+      new cv.Scalar(0, 0, 0, 0)
+    );
+    return { image: keep(image), centerX, centerY };
+  });
+}
+
+// Where a point on a spherical image was in the original photo, undoing
+// `warpSpherical` for a photo of the given size and focal length
+export function toPhotoPoint(
+  sphere: SphericalImage,
+  point: { x: number; y: number },
+  scale: number,
+  photo: { width: number; height: number; focal: number }
+): { x: number; y: number } {
+  const yaw = (point.x - sphere.centerX) / scale;
+  const pitch = (point.y - sphere.centerY) / scale;
+  return {
+    x: photo.width / 2 + photo.focal * Math.tan(yaw),
+    y: photo.height / 2 + (photo.focal * Math.tan(pitch)) / Math.cos(yaw),
+  };
+}
+
+// 255 where the spherical image has photo content, 0 in the padding
+export function contentMask(sphere: SphericalImage): Mat {
+  return withScope(({ track, keep }) => {
+    const channels = track(new cv.MatVector());
+    cv.split(sphere.image, channels);
+    const alpha = track(channels.get(3));
+    const mask = track(new cv.Mat());
+    cv.threshold(alpha, mask, 10, 255, cv.THRESH_BINARY);
+    return keep(mask);
+  });
+}
+
+// The yaw/pitch range the placed images span, in radians
+function extents(placements: Placement[], scale: number) {
+  return {
+    left: Math.min(...placements.map((p) => p.yaw - p.sphere.centerX / scale)),
+    right: Math.max(
+      ...placements.map(
+        (p) => p.yaw + (p.sphere.image.cols - p.sphere.centerX) / scale
+      )
+    ),
+    top: Math.min(...placements.map((p) => p.pitch - p.sphere.centerY / scale)),
+    bottom: Math.max(
+      ...placements.map(
+        (p) => p.pitch + (p.sphere.image.rows - p.sphere.centerY) / scale
+      )
+    ),
+  };
+}
+
+export function measureCoverage(
+  placements: Placement[],
+  scale: number
+): Coverage {
+  const { left, right, top, bottom } = extents(placements, scale);
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  return {
+    horizontal: Math.min(360, toDegrees(right - left)),
+    vertical: Math.min(180, toDegrees(bottom - top)),
+  };
+}
+
+// Puts the middle of a partial panorama straight ahead, and assumes the
+// photos were taken level so their average pitch is the horizon.
+export function centerPlacements(
+  placements: Placement[],
+  scale: number
+): Placement[] {
+  const { left, right } = extents(placements, scale);
+  const yawShift = -(left + right) / 2;
+  const pitchShift =
+    -placements.reduce((sum, p) => sum + p.pitch, 0) / placements.length;
+  return placements.map((p) => ({
+    ...p,
+    yaw: p.yaw + yawShift,
+    pitch: p.pitch + pitchShift,
+  }));
+}
@@ -0,0 +1,698 @@
+import * as THREE from "three";
+import {
+  createPanoramaControls,
+  easeInOut,
+  headingDirection,
+  yawPitch,
+} from "./panoramaControls";
+import type {
+  CameraView,
+  PanoramaControls,
+  PanoramaControlsOptions,
+} from "./panoramaControls";
+import { convertToEquirectangular } from "./projections";
+import { DEFAULT_FOV, clamp, viewLimits } from "./sceneView";
+import { createTileLayer } from "./tileLayer";
+import type { TileLayer } from "./tileLayer";
+import { MAX_SINGLE_TEXTURE_WIDTH } from "./tilePyramid";
+import type { TilePyramid, TileSource } from "./tilePyramid";
+import type {
+  Hotspot,
+  PanoramaArea,
+  ProjectionType,
+  SceneView,
+  TransitionType,
+} from "./tourGraph";
+
+export interface PanoramaViewOptions {
+  imageUrl: string;
+  // Anything but equirectangular is converted when the image loads
+  projection?: ProjectionType;
+  hotspots: Hotspot[];
+  // Partial panoramas only cover this part of the sphere
+  area?: PanoramaArea;
+  // Degrees clockwise from the image's centre to face at first, unless the
+  // view settings say otherwise
+  initialHeading?: number;
+  view?: SceneView;
+}
+
+// How to get from the current scene to the next
+export interface SceneTransition {
+  type: TransitionType;
+  // The clicked hotspot, which the zoom heads toward
+  target?: { x: number; y: number; z: number };
+  // Degrees clockwise from the new image's centre to face on arrival
+  arrivalHeading?: number;
+}
+
+export interface PanoramaView {
+  camera: THREE.PerspectiveCamera;
+  // For looking around programmatically and tuning inertia, auto-rotation
+  // and device orientation
+  controls: PanoramaControls;
+  // Without a transition the new scene appears as soon as it has loaded
+  showScene: (
+    options: PanoramaViewOptions,
+    transition?: SceneTransition
+  ) => void;
+  // Applies edits to the scene on screen, like moved hotspots or new view
+  // limits, without moving the camera
+  updateScene: (options: PanoramaViewOptions) => void;
+  // Where the camera is looking, rounded for saving in view settings
+  getView: () => CameraView;
+  // Loads these images ahead of time, forgetting earlier preloads
+  preload: (
+    images: Pick<PanoramaViewOptions, "imageUrl" | "projection">[]
+  ) => void;
+  pickHotspot: (clientX: number, clientY: number) => Hotspot | null;
+  pickSurface: (clientX: number, clientY: number) => THREE.Vector3 | null;
+  moveHotspot: (hotspotId: string, position: THREE.Vector3) => void;
+  setSelectedHotspot: (hotspotId: string | null) => void;
+  setControlsEnabled: (enabled: boolean) => void;
+  dispose: () => void;
+}
+
+const SELECTED_HOTSPOT_SCALE = 1.4;
+
+const FULL_SPHERE: PanoramaArea = { left: 0, top: 0, width: 1, height: 1 };
+
+const SPHERE_RADIUS = 500;
+// The zoom transition narrows the view to this before switching scenes
+const ZOOM_FOV = 35;
+const MAX_BLUR_PX = 16;
+
+const TRANSITION_MS: Record<TransitionType, number> = {
+  crossfade: 600,
+  zoom: 450,
+  blur: 350,
+  none: 0,
+};
+
+// A scene's sphere and hotspots, swapped as a unit on navigation
+interface SceneLayer {
+  textureKey: string;
+  options: PanoramaViewOptions;
+  group: THREE.Group;
+  sphere: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+  // Detail for images too large for one texture, over the sphere's preview
+  tiles: TileLayer | null;
+  meshesById: Map<string, THREE.Mesh[]>;
+}
+
+// An image's texture, shared by every layer showing it. Large images get
+// a preview texture and a tile pyramid instead.
+interface LoadedImage {
+  texture: THREE.Texture;
+  ready: Promise<void>;
+  pyramid?: TilePyramid;
+}
+
+// One timed stage of a transition, given its eased progress from 0 to 1
+interface TransitionStep {
+  duration: number;
+  update: (t: number) => void;
+}
+
+function createHotspotMeshes(hotspot: Hotspot): THREE.Mesh[] {
+  // Create a ring/torus for links, small sphere for info
+  if (hotspot.type === "link") {
+    // Outer ring
+    const ringGeometry = new THREE.TorusGeometry(12, 2, 16, 32);
+    const ringMaterial = new THREE.MeshBasicMaterial({
+      color: 0x22c55e,
+      transparent: true,
+      opacity: 0.9,
+    });
+    const ring = new THREE.Mesh(ringGeometry, ringMaterial);
+    ring.position.copy(hotspot.position);
+    ring.lookAt(0, 0, 0);
+    ring.userData = { hotspot };
+
+    // Inner pulsing dot
+    const dotGeometry = new THREE.SphereGeometry(5, 16, 16);
+    const dotMaterial = new THREE.MeshBasicMaterial({
+      color: 0x4ade80,
+      transparent: true,
+      opacity: 0.8,
+    });
+    const dot = new THREE.Mesh(dotGeometry, dotMaterial);
+    dot.position.copy(hotspot.position);
+    dot.userData = { hotspot };
+    return [ring, dot];
+  }
+
+  // Info hotspot - blue diamond shape
+  const geometry = new THREE.OctahedronGeometry(8);
+  const material = new THREE.MeshBasicMaterial({
+    color: 0x3b82f6,
+    transparent: true,
+    opacity: 0.85,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.copy(hotspot.position);
+  mesh.userData = { hotspot };
+  return [mesh];
+}
+
+// The same image read as another projection is another texture
+function textureKey(imageUrl: string, projection?: ProjectionType) {
+  return projection && projection !== "equirectangular"
+    ? `${projection}:${imageUrl}`
+    : imageUrl;
+}
+
+// Renders equirectangular panoramas with their hotspots into `container`.
+// The renderer outlives scene changes, so moving between scenes is a
+// transition rather than a rebuild. Shared by the editor's PanoramaViewer
+// and the published player, which each supply the tiles of their large
+// images through `tileSource`.
+export function createPanoramaView(
+  container: HTMLElement,
+  options: PanoramaViewOptions,
+  controlsOptions: PanoramaControlsOptions = {},
+  tileSource?: TileSource
+): PanoramaView {
+  // Clear any existing children to prevent duplicates (React Strict Mode)
+  while (container.firstChild) {
+    container.removeChild(container.firstChild);
+  }
+
+  // Scene
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0x222222);
+
+  const camera = new THREE.PerspectiveCamera(
+    DEFAULT_FOV,
+    window.innerWidth / window.innerHeight,
+    0.1,
+    1000
+  );
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true });
+  renderer.setSize(window.innerWidth, window.innerHeight);
+  container.appendChild(renderer.domElement);
+
+  // Textures are shared between layers and kept for preloaded scenes
+  const imageLoader = new THREE.ImageLoader();
+  const maxTextureWidth = Math.min(
+    MAX_SINGLE_TEXTURE_WIDTH,
+    renderer.capabilities.maxTextureSize
+  );
+  const textures = new Map<string, LoadedImage>();
+  const loadTexture = (imageUrl: string, projection?: ProjectionType) => {
+    const key = textureKey(imageUrl, projection);
+    let entry = textures.get(key);
+    if (!entry) {
+      const texture = new THREE.Texture();
+      texture.colorSpace = THREE.SRGBColorSpace;
+      const loaded: LoadedImage = { texture, ready: Promise.resolve() };
+      const conversion =
+        projection && projection !== "equirectangular" ? projection : null;
+      // Resolves on failure too, so a broken image can't stall navigation
+      loaded.ready = new Promise<void>((resolve) => {
+        let shown = false;
+        const show = (image: TexImageSource) => {
+          if (shown) return;
+          shown = true;
+          texture.image = image;
+          texture.needsUpdate = true;
+          resolve();
+        };
+        const showUrl = async (url: string) =>
+          show(await imageLoader.loadAsync(url));
+
+        const load = async () => {
+          // Large images come as a preview under tiles, where the host has
+          // tiles for them
+          const pyramid =
+            tileSource && !conversion
+              ? await tileSource(imageUrl, (previewUrl) => {
+                  showUrl(previewUrl).catch((err) =>
+                    console.error("Preview load error:", err)
+                  );
+                })
+              : null;
+          if (pyramid) {
+            loaded.pyramid = pyramid;
+            if (!shown) await showUrl(pyramid.previewUrl);
+            return;
+          }
+
+          const image = await imageLoader.loadAsync(imageUrl);
+          if (conversion) {
+            // Converted no wider than one texture, so never tiled
+            show(
+              convertToEquirectangular(
+                renderer,
+                image,
+                conversion,
+                maxTextureWidth
+              )
+            );
+          } else if (image.naturalWidth > maxTextureWidth) {
+            // No tiles to be had, so shrink it to fit, decoding off the
+            // main thread. Bitmaps are flipped as they're made, not by
+            // WebGL.
+            const blob = await (await fetch(imageUrl)).blob();
+            texture.flipY = false;
+            show(
+              await createImageBitmap(blob, {
+                resizeWidth: maxTextureWidth,
+                resizeHeight: Math.round(
+                  (maxTextureWidth * image.naturalHeight) / image.naturalWidth
+                ),
+                resizeQuality: "high",
+                imageOrientation: "flipY",
+              })
+            );
+          } else {
+            show(image);
+          }
+        };
+        load().catch((err) => {
+          console.error("Texture load error:", err);
+          resolve();
+        });
+      });
+      entry = loaded;
+      textures.set(key, entry);
+    }
+    return entry;
+  };
+
+  const forgetTexture = (key: string) => {
+    const entry = textures.get(key);
+    if (!entry) return;
+    entry.texture.dispose();
+    textures.delete(key);
+  };
+
+  // Every layer not yet disposed: the one on screen, plus the next one
+  // while a transition runs
+  const layers = new Set<SceneLayer>();
+  let selectedHotspotId: string | null = null;
+
+  const addHotspotMeshes = (layer: SceneLayer, hotspots: Hotspot[]) => {
+    hotspots.forEach((hotspot) => {
+      const meshes = createHotspotMeshes(hotspot);
+      meshes.forEach((mesh) => {
+        if (hotspot.id === selectedHotspotId) {
+          mesh.scale.setScalar(SELECTED_HOTSPOT_SCALE);
+        }
+        layer.group.add(mesh);
+      });
+      layer.meshesById.set(hotspot.id, meshes);
+    });
+  };
+
+  const removeHotspotMeshes = (layer: SceneLayer) => {
+    layer.meshesById.forEach((meshes) =>
+      meshes.forEach((mesh) => {
+        layer.group.remove(mesh);
+        mesh.geometry.dispose();
+        (mesh.material as THREE.Material).dispose();
+      })
+    );
+    layer.meshesById.clear();
+  };
+
+  const createLayer = (options: PanoramaViewOptions) => {
+    const { imageUrl, projection, hotspots, area } = options;
+    // Sphere
+    const { left, top, width, height } = area ?? FULL_SPHERE;
+    const sphereGeom = new THREE.SphereGeometry(
+      SPHERE_RADIUS,
+      60,
+      40,
+      2 * Math.PI * left,
+      2 * Math.PI * width,
+      Math.PI * top,
+      Math.PI * height
+    );
+    // Invert the geometry on the x-axis so that all of the faces point inward
+    sphereGeom.scale(-1, 1, 1);
+    // Drawn first and behind everything else, depth aside: tiles go over
+    // it in order of detail and hotspots over those
+    const sphereMat = new THREE.MeshBasicMaterial({
+      map: loadTexture(imageUrl, projection).texture,
+      depthTest: false,
+      depthWrite: false,
+    });
+
+    const layer: SceneLayer = {
+      textureKey: textureKey(imageUrl, projection),
+      options,
+      group: new THREE.Group(),
+      sphere: new THREE.Mesh(sphereGeom, sphereMat),
+      tiles: null,
+      meshesById: new Map(),
+    };
+    layer.group.add(layer.sphere);
+    addHotspotMeshes(layer, hotspots);
+    layers.add(layer);
+    return layer;
+  };
+
+  const disposeLayer = (layer: SceneLayer) => {
+    scene.remove(layer.group);
+    removeHotspotMeshes(layer);
+    layer.tiles?.dispose();
+    layer.sphere.geometry.dispose();
+    layer.sphere.material.dispose();
+    layers.delete(layer);
+  };
+
+  // The layer hotspots are edited and picked on. While a transition runs
+  // it's the incoming scene, even before it's on screen.
+  let current = createLayer(options);
+  // The layer on screen, whose view limits apply
+  let shown = current;
+
+  const controls = createPanoramaControls(
+    camera,
+    renderer.domElement,
+    (fov) => viewLimits(shown.options.view, shown.options.area, fov),
+    controlsOptions
+  );
+  // Whether the caller wants the controls on; transitions turn them off
+  let controlsEnabled = true;
+
+  const face = (direction: THREE.Vector3) =>
+    controls.lookAt(yawPitch(direction));
+  const facing = () => {
+    const { yaw, pitch } = controls.getView();
+    return headingDirection(yaw, pitch);
+  };
+  const setFov = (fov: number) => controls.lookAt({ fov });
+
+  // Where the camera ends up on arriving in a layer's scene: facing the
+  // link's heading or the scene's starting view, or the same way as before
+  // if neither says
+  const arrival = (layer: SceneLayer, arrivalHeading?: number) => {
+    const { view = {}, area, initialHeading } = layer.options;
+    const yaw = arrivalHeading ?? view.initialYaw ?? initialHeading;
+    const pitch = view.initialPitch;
+    const direction =
+      yaw === undefined && pitch === undefined
+        ? null
+        : headingDirection(yaw ?? yawPitch(facing()).yaw, pitch ?? 0);
+    const fov = view.initialFov ?? DEFAULT_FOV;
+    const { minFov, maxFov } = viewLimits(view, area, fov);
+    return { direction, fov: clamp(fov, minFov, maxFov) };
+  };
+
+  scene.add(current.group);
+  const initial = arrival(current);
+  setFov(initial.fov);
+  if (initial.direction) face(initial.direction);
+
+  // The transition step in progress, advanced by the animation loop
+  let running: {
+    step: TransitionStep;
+    start: number;
+    resolve: () => void;
+  } | null = null;
+  let transitioning = false;
+  let disposed = false;
+
+  const play = (step: TransitionStep) =>
+    new Promise<void>((resolve) => {
+      running = { step, start: performance.now(), resolve };
+    });
+
+  // Fades `next` in over `from`, which turns with the camera so it seems to
+  // stay still while the camera swings round to the arrival heading. The
+  // view widens or narrows to the next scene's from `startFov`.
+  const crossfade = async (
+    from: SceneLayer,
+    next: SceneLayer,
+    arrivalHeading: number | undefined,
+    duration: number,
+    startFov = camera.fov
+  ) => {
+    const { direction, fov } = arrival(next, arrivalHeading);
+    shown = next;
+    if (direction) {
+      const turn = new THREE.Quaternion().setFromUnitVectors(
+        facing(),
+        direction
+      );
+      from.group.quaternion.premultiply(turn);
+      face(direction);
+    }
+    from.meshesById.forEach((meshes) =>
+      meshes.forEach((mesh) => (mesh.visible = false))
+    );
+
+    // The incoming sphere draws over everything, its own hotspots included,
+    // until it's fully opaque. Its tiles only stream in afterwards.
+    const { sphere } = next;
+    sphere.material.transparent = true;
+    sphere.material.opacity = 0;
+    sphere.renderOrder = 1;
+    scene.add(next.group);
+
+    await play({
+      duration,
+      update: (t) => {
+        sphere.material.opacity = t;
+        setFov(startFov + (fov - startFov) * t);
+      },
+    });
+
+    disposeLayer(from);
+    sphere.material.transparent = false;
+    sphere.renderOrder = 0;
+  };
+
+  const cut = (
+    from: SceneLayer,
+    next: SceneLayer,
+    arrivalHeading: number | undefined
+  ) => {
+    const { direction, fov } = arrival(next, arrivalHeading);
+    disposeLayer(from);
+    scene.add(next.group);
+    shown = next;
+    setFov(fov);
+    if (direction) face(direction);
+  };
+
+  const blur = (from: number, to: number) => (t: number) => {
+    const radius = from + (to - from) * t;
+    renderer.domElement.style.filter = radius > 0 ? `blur(${radius}px)` : "";
+  };
+
+  const runTransition = async (
+    from: SceneLayer,
+    next: SceneLayer,
+    ready: Promise<void>,
+    transition: SceneTransition | undefined
+  ) => {
+    const type = transition?.type ?? "none";
+    const duration = TRANSITION_MS[type];
+    const heading = transition?.arrivalHeading;
+
+    if (type === "zoom") {
+      // Swing toward the clicked hotspot while narrowing the view, then
+      // widen it again as the next scene fades in
+      const start = facing();
+      const end = transition?.target
+        ? new THREE.Vector3().copy(transition.target).normalize()
+        : start;
+      const startFov = camera.fov;
+      await Promise.all([
+        ready,
+        play({
+          duration,
+          update: (t) => {
+            face(start.clone().lerp(end, t).normalize());
+            setFov(startFov + (ZOOM_FOV - startFov) * t);
+          },
+        }),
+      ]);
+      if (disposed) return;
+      await crossfade(from, next, heading, duration, ZOOM_FOV);
+    } else if (type === "blur") {
+      await Promise.all([
+        ready,
+        play({ duration, update: blur(0, MAX_BLUR_PX) }),
+      ]);
+      if (disposed) return;
+      cut(from, next, heading);
+      await play({ duration, update: blur(MAX_BLUR_PX, 0) });
+    } else if (type === "crossfade") {
+      await ready;
+      if (disposed) return;
+      await crossfade(from, next, heading, duration);
+    } else {
+      await ready;
+      if (disposed) return;
+      cut(from, next, heading);
+    }
+  };
+
+  // Transitions run one after another, so a quick second hop starts from
+  // wherever the first one ended
+  let queue = Promise.resolve();
+
+  // Large images stream in tiles for wherever the camera looks, once
+  // they've been split up
+  const streamTiles = () => {
+    const pyramid = textures.get(shown.textureKey)?.pyramid;
+    if (!pyramid) return;
+    if (!shown.tiles) {
+      const area = shown.options.area ?? FULL_SPHERE;
+      shown.tiles = createTileLayer(pyramid, area, SPHERE_RADIUS);
+      shown.group.add(shown.tiles.group);
+    }
+    shown.tiles.update(camera, renderer.domElement.height);
+  };
+
+  // Animation Loop
+  let frame = 0;
+  const animate = (now: number) => {
+    frame = requestAnimationFrame(animate);
+
+    if (running) {
+      const { step, start, resolve } = running;
+      const elapsed = Math.max(0, now - start);
+      const t = step.duration > 0 ? Math.min(1, elapsed / step.duration) : 1;
+      step.update(easeInOut(t));
+      if (t >= 1) {
+        running = null;
+        resolve();
+      }
+    }
+    controls.update(now);
+    if (!transitioning) streamTiles();
+    renderer.render(scene, camera);
+  };
+  frame = requestAnimationFrame(animate);
+
+  // Resize
+  const handleResize = () => {
+    camera.aspect = window.innerWidth / window.innerHeight;
+    camera.updateProjectionMatrix();
+    renderer.setSize(window.innerWidth, window.innerHeight);
+  };
+  window.addEventListener("resize", handleResize);
+
+  const rayFrom = (clientX: number, clientY: number) => {
+    const rect = container.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const y = -((clientY - rect.top) / rect.height) * 2 + 1;
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2(x, y), camera);
+    return raycaster;
+  };
+
+  return {
+    camera,
+    controls,
+    showScene: (next, transition) => {
+      const from = current;
+      const { ready } = loadTexture(next.imageUrl, next.projection);
+      current = createLayer(next);
+      const layer = current;
+      queue = queue.then(async () => {
+        if (disposed) return;
+        transitioning = true;
+        controls.setEnabled(false);
+        try {
+          await runTransition(from, layer, ready, transition);
+        } finally {
+          transitioning = false;
+          controls.setEnabled(controlsEnabled);
+        }
+      });
+    },
+    updateScene: (changes) => {
+      current.options = changes;
+      removeHotspotMeshes(current);
+      addHotspotMeshes(current, changes.hotspots);
+      if (current === shown && !transitioning) {
+        const { fov } = controls.getView();
+        const { minFov, maxFov } = viewLimits(changes.view, changes.area, fov);
+        setFov(clamp(fov, minFov, maxFov));
+      }
+    },
+    getView: () => {
+      const { yaw, pitch, fov } = controls.getView();
+      const round = (degrees: number) => Math.round(degrees * 10) / 10;
+      return { yaw: round(yaw), pitch: round(pitch), fov: round(fov) };
+    },
+    preload: (images) => {
+      images.forEach(({ imageUrl, projection }) =>
+        loadTexture(imageUrl, projection)
+      );
+      // Keep what's on screen or on its way; drop earlier preloads
+      const keep = new Set([
+        ...images.map(({ imageUrl, projection }) =>
+          textureKey(imageUrl, projection)
+        ),
+        ...[...layers].map((layer) => layer.textureKey),
+      ]);
+      [...textures.keys()]
+        .filter((key) => !keep.has(key))
+        .forEach(forgetTexture);
+    },
+    pickHotspot: (clientX, clientY) => {
+      if (transitioning) return null;
+      const meshes = [...current.meshesById.values()].flat();
+      const intersects = rayFrom(clientX, clientY).intersectObjects(meshes);
+      return intersects.length > 0
+        ? (intersects[0].object.userData.hotspot as Hotspot)
+        : null;
+    },
+    pickSurface: (clientX, clientY) => {
+      if (transitioning) return null;
+      const raycaster = rayFrom(clientX, clientY);
+      const intersects = raycaster.intersectObject(current.sphere);
+      if (intersects.length > 0) return intersects[0].point;
+      // Partial panoramas leave gaps; hotspots can still go there, at the
+      // distance the sphere would be
+      return current.options.area
+        ? raycaster.ray.at(SPHERE_RADIUS, new THREE.Vector3())
+        : null;
+    },
+    moveHotspot: (hotspotId, position) => {
+      current.meshesById.get(hotspotId)?.forEach((mesh) => {
+        mesh.position.copy(position);
+        if (mesh.geometry instanceof THREE.TorusGeometry) {
+          mesh.lookAt(0, 0, 0);
+        }
+      });
+    },
+    setSelectedHotspot: (hotspotId) => {
+      selectedHotspotId = hotspotId;
+      current.meshesById.forEach((meshes, id) =>
+        meshes.forEach((mesh) =>
+          mesh.scale.setScalar(id === hotspotId ? SELECTED_HOTSPOT_SCALE : 1)
+        )
+      );
+    },
+    setControlsEnabled: (enabled) => {
+      controlsEnabled = enabled;
+      if (!transitioning) controls.setEnabled(enabled);
+    },
+    dispose: () => {
+      disposed = true;
+      window.removeEventListener("resize", handleResize);
+      cancelAnimationFrame(frame);
+
+      // Check if the renderer's domElement is still a child of the container
+      if (renderer.domElement.parentNode === container) {
+        container.removeChild(renderer.domElement);
+      }
+
+      [...layers].forEach(disposeLayer);
+      [...textures.keys()].forEach(forgetTexture);
+      controls.dispose();
+
+      renderer.dispose();
+    },
+  };
+}
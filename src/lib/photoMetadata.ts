@@ -0,0 +1,276 @@
+// Reads photo-sphere XMP (Google's GPano schema) and EXIF GPS and capture
+// times from uploaded images
+import { wrapDegrees } from "./sceneView";
+import type { GeoLocation, PanoramaArea, SceneMetadata } from "./tourGraph";
+
+// Metadata sits near the start of the file; JPEG APP segments are at most
+// 64KB each
+const HEADER_BYTES = 512 * 1024;
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 1;
+const TAG_GPS_LATITUDE = 2;
+const TAG_GPS_LONGITUDE_REF = 3;
+const TAG_GPS_LONGITUDE = 4;
+const TAG_GPS_ALTITUDE_REF = 5;
+const TAG_GPS_ALTITUDE = 6;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  7: 1,
+  9: 4,
+  10: 8,
+};
+
+interface ExifData {
+  location?: GeoLocation;
+  capturedAt?: string;
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+  let text = "";
+  for (let i = start; i < end; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
+
+// Minimal TIFF reader: just enough to walk IFDs and read ASCII, integer and
+// rational values
+function readTiff(bytes: Uint8Array, start: number, end: number): ExifData {
+  const view = new DataView(
+    bytes.buffer,
+    bytes.byteOffset + start,
+    end - start
+  );
+  const little = view.getUint16(0) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  const readIfd = (offset: number) => {
+    const entries = new Map<
+      number,
+      { type: number; count: number; at: number }
+    >();
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      // Values that fit in four bytes are stored in the entry itself
+      const at = size <= 4 ? entry + 8 : u32(entry + 8);
+      entries.set(u16(entry), { type, count: valueCount, at });
+    }
+    return entries;
+  };
+
+  type Ifd = ReturnType<typeof readIfd>;
+  const ascii = (ifd: Ifd, tag: number) => {
+    const entry = ifd.get(tag);
+    if (!entry || entry.type !== 2) return undefined;
+    const text = latin1(
+      new Uint8Array(view.buffer, view.byteOffset + entry.at, entry.count),
+      0,
+      entry.count
+    );
+    return text.replace(/\0.*$/s, "").trim() || undefined;
+  };
+  const rationals = (ifd: Ifd, tag: number) => {
+    const entry = ifd.get(tag);
+    if (!entry || entry.type !== 5) return undefined;
+    return Array.from({ length: entry.count }, (_, i) => {
+      const denominator = u32(entry.at + i * 8 + 4);
+      return denominator ? u32(entry.at + i * 8) / denominator : NaN;
+    });
+  };
+  const pointer = (ifd: Ifd, tag: number) => {
+    const entry = ifd.get(tag);
+    return entry && entry.type === 4 ? u32(entry.at) : undefined;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const data: ExifData = {};
+
+  const exifOffset = pointer(ifd0, TAG_EXIF_IFD);
+  const exif = exifOffset ? readIfd(exifOffset) : new Map();
+  const date = parseExifDate(
+    ascii(exif, TAG_DATE_TIME_ORIGINAL) ?? ascii(ifd0, TAG_DATE_TIME),
+    ascii(exif, TAG_OFFSET_TIME_ORIGINAL)
+  );
+  if (date) data.capturedAt = date;
+
+  const gpsOffset = pointer(ifd0, TAG_GPS_IFD);
+  if (gpsOffset) {
+    const gps = readIfd(gpsOffset);
+    const toDegrees = (parts?: number[]) =>
+      parts && parts.length === 3
+        ? parts[0] + parts[1] / 60 + parts[2] / 3600
+        : NaN;
+    const latitude = toDegrees(rationals(gps, TAG_GPS_LATITUDE));
+    const longitude = toDegrees(rationals(gps, TAG_GPS_LONGITUDE));
+    if (
+      Number.isFinite(latitude) &&
+      Number.isFinite(longitude) &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180
+    ) {
+      const south = ascii(gps, TAG_GPS_LATITUDE_REF) === "S";
+      const west = ascii(gps, TAG_GPS_LONGITUDE_REF) === "W";
+      data.location = {
+        latitude: south ? -latitude : latitude,
+        longitude: west ? -longitude : longitude,
+      };
+      const altitude = rationals(gps, TAG_GPS_ALTITUDE)?.[0];
+      if (altitude !== undefined && Number.isFinite(altitude)) {
+        // Reference 1 means below sea level
+        const altitudeRef = gps.get(TAG_GPS_ALTITUDE_REF);
+        const below = altitudeRef && view.getUint8(altitudeRef.at) === 1;
+        data.location.altitude = below ? -altitude : altitude;
+      }
+    }
+  }
+  return data;
+}
+
+// EXIF dates look like "2024:05:01 14:03:22", with the UTC offset, if the
+// camera recorded one, in a separate "+02:00" tag
+function parseExifDate(date?: string, offset?: string): string | undefined {
+  const match = date?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+}
+
+// Reads a GPano property, written either as an attribute or an element
+function gpanoValue(xmp: string, name: string): string | undefined {
+  const match =
+    xmp.match(new RegExp(`GPano:${name}\\s*=\\s*["']([^"']*)["']`)) ??
+    xmp.match(new RegExp(`<GPano:${name}>([^<]*)</GPano:${name}>`));
+  return match?.[1].trim();
+}
+
+function gpanoNumber(xmp: string, name: string): number | undefined {
+  const value = Number.parseFloat(gpanoValue(xmp, name) ?? "");
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function readGPano(xmp: string): SceneMetadata {
+  const projection = gpanoValue(xmp, "ProjectionType");
+  // Other projections aren't supported, so their layout is meaningless here
+  if (projection && projection !== "equirectangular") return {};
+
+  const data: SceneMetadata = {};
+  const fullWidth = gpanoNumber(xmp, "FullPanoWidthPixels");
+  const fullHeight = gpanoNumber(xmp, "FullPanoHeightPixels");
+  const width = gpanoNumber(xmp, "CroppedAreaImageWidthPixels");
+  const height = gpanoNumber(xmp, "CroppedAreaImageHeightPixels");
+  if (fullWidth && fullHeight && width && height) {
+    const area: PanoramaArea = {
+      left: (gpanoNumber(xmp, "CroppedAreaLeftPixels") ?? 0) / fullWidth,
+      top: (gpanoNumber(xmp, "CroppedAreaTopPixels") ?? 0) / fullHeight,
+      width: Math.min(1, width / fullWidth),
+      height: Math.min(1, height / fullHeight),
+    };
+    const isPartial = area.width < 1 || area.height < 1;
+    const fits = area.left >= 0 && area.top >= 0 && area.top + area.height <= 1;
+    if (isPartial && fits) data.area = area;
+  }
+
+  const poseHeading = gpanoNumber(xmp, "PoseHeadingDegrees");
+  const initialView = gpanoNumber(xmp, "InitialViewHeadingDegrees");
+  if (poseHeading !== undefined) {
+    data.compassHeading = wrapDegrees(poseHeading);
+  }
+  if (initialView !== undefined) {
+    // The initial view is a compass heading, not relative to the image
+    data.initialHeading = wrapDegrees(initialView - (poseHeading ?? 0));
+  } else if (data.area) {
+    // Start on what was photographed rather than the empty rest
+    const center = data.area.left + data.area.width / 2;
+    data.initialHeading = wrapDegrees((center - 0.5) * 360);
+  } else if (poseHeading !== undefined) {
+    // The pose is where the camera pointed at the middle of the image
+    data.initialHeading = 0;
+  }
+  return data;
+}
+
+function findXmp(bytes: Uint8Array): string | undefined {
+  const text = latin1(bytes, 0, bytes.length);
+  const start = text.indexOf("<x:xmpmeta");
+  const end = text.indexOf("</x:xmpmeta>", start);
+  return start >= 0 && end > start
+    ? new TextDecoder().decode(bytes.subarray(start, end))
+    : undefined;
+}
+
+// Walks the JPEG segments up to the image data for EXIF and XMP
+function readJpegSegments(bytes: Uint8Array) {
+  let exif: ExifData = {};
+  let xmp: string | undefined;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: only image data follows
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const end = Math.min(offset + 2 + length, bytes.length);
+    if (marker === 0xe1) {
+      if (latin1(bytes, start, start + EXIF_HEADER.length) === EXIF_HEADER) {
+        // A broken EXIF block shouldn't cost us the XMP
+        try {
+          exif = readTiff(bytes, start + EXIF_HEADER.length, end);
+        } catch (err) {
+          console.warn("Could not read EXIF data:", err);
+        }
+      } else if (
+        latin1(bytes, start, start + XMP_HEADER.length) === XMP_HEADER
+      ) {
+        xmp ??= new TextDecoder().decode(
+          bytes.subarray(start + XMP_HEADER.length, end)
+        );
+      }
+    }
+    offset = offset + 2 + length;
+  }
+  return { exif, xmp };
+}
+
+// Reads what a photo's metadata says about the scene. Missing or malformed
+// metadata never stops an upload, so this resolves to whatever it could read.
+export async function readPhotoMetadata(file: Blob): Promise<SceneMetadata> {
+  try {
+    const bytes = new Uint8Array(
+      await file.slice(0, HEADER_BYTES).arrayBuffer()
+    );
+    const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+    const { exif, xmp } = isJpeg
+      ? readJpegSegments(bytes)
+      : { exif: {}, xmp: findXmp(bytes) };
+    return { ...exif, ...(xmp ? readGPano(xmp) : {}) };
+  } catch (err) {
+    console.warn("Could not read photo metadata:", err);
+    return {};
+  }
+}
+
+// What a panorama stitched from several photos inherits from them: where
+// the first located photo was taken, and when the first dated one was
+export function combineMetadata(photos: SceneMetadata[]): SceneMetadata {
+  const located = photos.find((photo) => photo.location);
+  const dated = photos.find((photo) => photo.capturedAt);
+  return { location: located?.location, capturedAt: dated?.capturedAt };
+}
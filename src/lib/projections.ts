@@ -0,0 +1,307 @@
+// Turns cubemaps and dual-fisheye frames into equirectangular images, so
+// the viewer, tiles and published tours only ever deal with one layout.
+// The remapping runs as a shader, one output pixel per fragment.
+import * as THREE from "three";
+import type { ProjectionType } from "./tourGraph";
+
+export const PROJECTION_LABELS: Record<ProjectionType, string> = {
+  equirectangular: "Equirectangular",
+  cubemap: "Cubemap (cross)",
+  "dual-fisheye": "Dual fisheye",
+};
+
+// Each lens of a dual-fisheye camera sees a little over a hemisphere
+const FISHEYE_LENS_FOV = 190;
+
+const JPEG_QUALITY = 0.92;
+// Exported images are tiled by the player past 4096 pixels, but reading
+// back much more than this from the GPU runs browsers out of memory
+const MAX_EXPORT_WIDTH = 8192;
+
+export type CubeFace = "front" | "right" | "back" | "left" | "up" | "down";
+
+// Where each face sits in a horizontal cross, in face-sized cells:
+//       up
+// left front right back
+//       down
+const CROSS_CELLS: Record<CubeFace, [number, number]> = {
+  up: [1, 0],
+  left: [0, 1],
+  front: [1, 1],
+  right: [2, 1],
+  back: [3, 1],
+  down: [1, 2],
+};
+
+// Words photographers' tools put at the end of face file names
+const FACE_NAMES: Record<CubeFace, string[]> = {
+  front: ["front", "f", "forward"],
+  right: ["right", "r"],
+  back: ["back", "b"],
+  left: ["left", "l"],
+  up: ["up", "u", "top", "t"],
+  down: ["down", "d", "bottom"],
+};
+
+const VERTEX_SHADER = `
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+// Directions use the frame panoramaControls' headingDirection does, so the
+// middle of the front face, or of the front lens, becomes the middle of
+// the equirectangular image
+const FRAGMENT_SHADER = `
+uniform sampler2D source;
+// 0: horizontal cross, 1: vertical cross, 2: dual fisheye
+uniform int sourceLayout;
+uniform float lensFov;
+varying vec2 vUv;
+
+const float PI = 3.141592653589793;
+const vec3 FORWARD = vec3(-1.0, 0.0, 0.0);
+const vec3 RIGHT = vec3(0.0, 0.0, -1.0);
+const vec3 UP = vec3(0.0, 1.0, 0.0);
+
+// A point on a face, -1 to 1 rightwards and upwards, to where it is in the
+// source: cell 'cell' of a grid of 'grid' cells, counted from the top left
+vec2 inCell(vec2 st, vec2 cell, vec2 grid) {
+  vec2 fromTopLeft = (cell + vec2(st.x + 1.0, 1.0 - st.y) / 2.0) / grid;
+  return vec2(fromTopLeft.x, 1.0 - fromTopLeft.y);
+}
+
+vec2 cubemapUv(vec3 d) {
+  float x = dot(d, RIGHT);
+  float y = dot(d, UP);
+  float z = dot(d, FORWARD);
+  vec3 size = abs(vec3(x, y, z));
+  bool vertical = sourceLayout == 1;
+  vec2 grid = vertical ? vec2(3.0, 4.0) : vec2(4.0, 3.0);
+
+  if (size.z >= size.x && size.z >= size.y) {
+    if (z > 0.0) return inCell(vec2(x, y) / z, vec2(1.0, 1.0), grid);
+    // A vertical cross has the back face below the bottom one, upside down
+    return vertical
+      ? inCell(vec2(x, -y) / -z, vec2(1.0, 3.0), grid)
+      : inCell(vec2(-x, y) / -z, vec2(3.0, 1.0), grid);
+  }
+  if (size.x >= size.y) {
+    if (x > 0.0) return inCell(vec2(-z, y) / x, vec2(2.0, 1.0), grid);
+    return inCell(vec2(z, y) / -x, vec2(0.0, 1.0), grid);
+  }
+  if (y > 0.0) return inCell(vec2(x, -z) / y, vec2(1.0, 0.0), grid);
+  return inCell(vec2(x, z) / -y, vec2(1.0, 2.0), grid);
+}
+
+// The front lens fills the left half and the back lens the right, each an
+// equidistant fisheye: distance from the centre grows evenly with the
+// angle off the lens's axis
+vec2 fisheyeUv(vec3 d) {
+  bool front = dot(d, FORWARD) >= 0.0;
+  vec3 axis = front ? FORWARD : -FORWARD;
+  vec3 right = front ? RIGHT : -RIGHT;
+  float angle = acos(clamp(dot(d, axis), -1.0, 1.0));
+  vec2 across = vec2(dot(d, right), dot(d, UP));
+  float span = length(across);
+  vec2 toward = span > 0.0 ? across / span : vec2(0.0);
+  vec2 st = toward * angle / (lensFov / 2.0);
+  return inCell(st, vec2(front ? 0.0 : 1.0, 0.0), vec2(2.0, 1.0));
+}
+
+void main() {
+  float phi = 2.0 * PI * vUv.x;
+  float theta = PI * (1.0 - vUv.y);
+  vec3 d = vec3(cos(phi) * sin(theta), cos(theta), sin(phi) * sin(theta));
+  vec2 uv = sourceLayout == 2 ? fisheyeUv(d) : cubemapUv(d);
+  gl_FragColor = texture2D(source, uv);
+}
+`;
+
+function isCross(width: number, height: number, columns: number, rows: number) {
+  return Math.abs((width * rows) / (height * columns) - 1) < 0.01;
+}
+
+// Scales the image down to what the GPU can hold, if it has to
+function fitTexture(image: HTMLImageElement, maxSize: number) {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  if (scale === 1) return image;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(width * scale);
+  canvas.height = Math.floor(height * scale);
+  canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Renders `image` as an equirectangular canvas at most `maxWidth` wide,
+// using `renderer`'s GPU
+export function convertToEquirectangular(
+  renderer: THREE.WebGLRenderer,
+  image: HTMLImageElement,
+  projection: Exclude<ProjectionType, "equirectangular">,
+  maxWidth: number
+): HTMLCanvasElement {
+  const maxSize = renderer.capabilities.maxTextureSize;
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const vertical = projection === "cubemap" && height > width;
+  // About as many pixels per degree as the source has
+  const fullWidth =
+    projection === "cubemap" ? (vertical ? width / 3 : width / 4) * 4 : width;
+  const outputWidth =
+    Math.floor(Math.min(fullWidth, maxWidth, maxSize) / 2) * 2;
+  const outputHeight = outputWidth / 2;
+
+  const texture = new THREE.Texture(fitTexture(image, maxSize));
+  // Mipmaps would blur across the seams between faces
+  texture.generateMipmaps = false;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      source: { value: texture },
+      sourceLayout: {
+        value: projection === "dual-fisheye" ? 2 : vertical ? 1 : 0,
+      },
+      lensFov: { value: THREE.MathUtils.degToRad(FISHEYE_LENS_FOV) },
+    },
+    vertexShader: VERTEX_SHADER,
+    fragmentShader: FRAGMENT_SHADER,
+  });
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+  // The quad is already in clip space
+  quad.frustumCulled = false;
+  const scene = new THREE.Scene();
+  scene.add(quad);
+  const target = new THREE.WebGLRenderTarget(outputWidth, outputHeight);
+
+  const pixels = new Uint8Array(outputWidth * outputHeight * 4);
+  const previousTarget = renderer.getRenderTarget();
+  renderer.setRenderTarget(target);
+  renderer.render(scene, new THREE.Camera());
+  renderer.readRenderTargetPixels(
+    target,
+    0,
+    0,
+    outputWidth,
+    outputHeight,
+    pixels
+  );
+  renderer.setRenderTarget(previousTarget);
+
+  target.dispose();
+  quad.geometry.dispose();
+  material.dispose();
+  texture.dispose();
+
+  // WebGL reads rows bottom up
+  const canvas = document.createElement("canvas");
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext("2d")!;
+  const imageData = ctx.createImageData(outputWidth, outputHeight);
+  const rowBytes = outputWidth * 4;
+  for (let row = 0; row < outputHeight; row++) {
+    const from = (outputHeight - 1 - row) * rowBytes;
+    imageData.data.set(pixels.subarray(from, from + rowBytes), row * rowBytes);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+// Converts a scene's image for export, at the best resolution this GPU
+// allows. Equirectangular images are returned as they are.
+export async function equirectangularBlob(
+  imageUrl: string,
+  projection: ProjectionType | undefined
+): Promise<Blob | null> {
+  if (!projection || projection === "equirectangular") return null;
+  const image = await new THREE.ImageLoader().loadAsync(imageUrl);
+  const renderer = new THREE.WebGLRenderer();
+  try {
+    const canvas = convertToEquirectangular(
+      renderer,
+      image,
+      projection,
+      MAX_EXPORT_WIDTH
+    );
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(new Error("Could not encode the converted image")),
+        "image/jpeg",
+        JPEG_QUALITY
+      );
+    });
+  } finally {
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+}
+
+// Cubemaps come as a cross; anything else is most likely equirectangular,
+// since dual-fisheye frames share its 2:1 shape and have to be picked
+// by hand
+export async function guessProjection(
+  file: Blob
+): Promise<ProjectionType | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = bitmap;
+    bitmap.close();
+    return isCross(width, height, 4, 3) || isCross(width, height, 3, 4)
+      ? "cubemap"
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Which face a file is from its name's last word, e.g. "hall_left.jpg"
+export function cubeFaceFromName(name: string): CubeFace | undefined {
+  const words = name
+    .replace(/\.[^.]*$/, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+  const last = words[words.length - 1];
+  return (Object.keys(FACE_NAMES) as CubeFace[]).find((face) =>
+    FACE_NAMES[face].includes(last)
+  );
+}
+
+// Lays six face images out as a horizontal cross, so a cubemap delivered
+// as separate files is stored like one delivered as a single image
+export async function assembleCubeCross(
+  faces: Record<CubeFace, Blob>
+): Promise<Blob> {
+  const entries = Object.entries(faces) as [CubeFace, Blob][];
+  const bitmaps = await Promise.all(
+    entries.map(([, blob]) => createImageBitmap(blob))
+  );
+  try {
+    const size = Math.min(...bitmaps.map((bitmap) => bitmap.width));
+    const canvas = document.createElement("canvas");
+    canvas.width = size * 4;
+    canvas.height = size * 3;
+    const ctx = canvas.getContext("2d")!;
+    entries.forEach(([face], i) => {
+      const [column, row] = CROSS_CELLS[face];
+      ctx.drawImage(bitmaps[i], column * size, row * size, size, size);
+    });
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not build cubemap")),
+        "image/jpeg",
+        JPEG_QUALITY
+      );
+    });
+  } finally {
+    bitmaps.forEach((bitmap) => bitmap.close());
+  }
+}
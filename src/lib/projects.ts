@@ -0,0 +1,313 @@
+import type { SavedPanorama } from "../components/ImageTree";
+import {
+  PROJECTS_STORE,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  queueWrite,
+} from "./db";
+import { generateId } from "./ids";
+import { deleteUnusedImages, getImageUrl, storeImage } from "./imageStore";
+import { keepUsedPyramids } from "./tileStore";
+import { emptyGraph, migrateLegacyTree } from "./tourGraph";
+import type {
+  Hotspot,
+  HotspotContent,
+  ImageNodeData,
+  LegacyImageNode,
+  TourGraph,
+} from "./tourGraph";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectContent {
+  graph: TourGraph;
+  panoramas: SavedPanorama[];
+}
+
+export interface Project extends ProjectSummary, ProjectContent {}
+
+interface StoredHotspotContent
+  extends Omit<HotspotContent, "imageUrl" | "videoUrl"> {
+  imageId?: string;
+  videoId?: string;
+}
+
+interface StoredHotspot extends Omit<Hotspot, "content"> {
+  content?: StoredHotspotContent;
+}
+
+interface StoredNode extends Omit<ImageNodeData, "imageUrl" | "hotspots"> {
+  imageId: string;
+  hotspots: StoredHotspot[];
+}
+
+interface StoredGraph extends Omit<TourGraph, "nodes"> {
+  nodes: Record<string, StoredNode>;
+}
+
+// Projects saved before scenes became a graph stored a nested tree
+interface StoredLegacyNode extends StoredNode {
+  children: StoredLegacyNode[];
+}
+
+interface StoredPanorama extends Omit<SavedPanorama, "imageUrl"> {
+  imageId: string;
+}
+
+interface StoredProject extends ProjectSummary {
+  graph?: StoredGraph;
+  rootNode?: StoredLegacyNode | null;
+  panoramas: StoredPanorama[];
+}
+
+const LAST_PROJECT_KEY = "tour-builder:last-project";
+
+export const DEFAULT_PROJECT_NAME = "Untitled tour";
+
+function toSummary({ id, name, createdAt, updatedAt }: StoredProject) {
+  return { id, name, createdAt, updatedAt };
+}
+
+async function storeHotspot(hotspot: Hotspot): Promise<StoredHotspot> {
+  if (!hotspot.content) return hotspot as StoredHotspot;
+  const { imageUrl, videoUrl, ...content } = hotspot.content;
+  return {
+    ...hotspot,
+    content: {
+      ...content,
+      imageId: imageUrl ? await storeImage(imageUrl) : undefined,
+      videoId: videoUrl ? await storeImage(videoUrl) : undefined,
+    },
+  };
+}
+
+async function restoreHotspot(hotspot: StoredHotspot): Promise<Hotspot> {
+  if (!hotspot.content) return hotspot as Hotspot;
+  const { imageId, videoId, ...content } = hotspot.content;
+  return {
+    ...hotspot,
+    content: {
+      ...content,
+      imageUrl: imageId ? await getImageUrl(imageId) : undefined,
+      videoUrl: videoId ? await getImageUrl(videoId) : undefined,
+    },
+  };
+}
+
+async function storeNode(node: ImageNodeData): Promise<StoredNode> {
+  const { imageUrl, hotspots, ...rest } = node;
+  return {
+    ...rest,
+    imageId: await storeImage(imageUrl),
+    hotspots: await Promise.all(hotspots.map(storeHotspot)),
+  };
+}
+
+async function restoreNode(node: StoredNode): Promise<ImageNodeData> {
+  const { imageId, hotspots, ...rest } = node;
+  return {
+    ...rest,
+    imageUrl: await getImageUrl(imageId),
+    hotspots: await Promise.all(hotspots.map(restoreHotspot)),
+  };
+}
+
+async function storeGraph(graph: TourGraph): Promise<StoredGraph> {
+  const nodes: Record<string, StoredNode> = {};
+  await Promise.all(
+    Object.values(graph.nodes).map(async (node) => {
+      nodes[node.id] = await storeNode(node);
+    })
+  );
+  return { ...graph, nodes };
+}
+
+async function restoreGraph(stored: StoredGraph): Promise<TourGraph> {
+  const nodes: Record<string, ImageNodeData> = {};
+  await Promise.all(
+    Object.values(stored.nodes).map(async (node) => {
+      nodes[node.id] = await restoreNode(node);
+    })
+  );
+  return { ...stored, nodes };
+}
+
+async function restoreLegacyNode(
+  node: StoredLegacyNode
+): Promise<LegacyImageNode> {
+  return {
+    ...(await restoreNode(node)),
+    children: await Promise.all(node.children.map(restoreLegacyNode)),
+  };
+}
+
+async function restoreProjectGraph(stored: StoredProject): Promise<TourGraph> {
+  if (stored.graph) return restoreGraph(stored.graph);
+  if (stored.rootNode) {
+    return migrateLegacyTree(await restoreLegacyNode(stored.rootNode));
+  }
+  return emptyGraph();
+}
+
+function collectImageIds(project: StoredProject, ids: Set<string>) {
+  const visitLegacy = (node: StoredLegacyNode) => {
+    ids.add(node.imageId);
+    node.children.forEach(visitLegacy);
+  };
+  if (project.rootNode) visitLegacy(project.rootNode);
+  Object.values(project.graph?.nodes ?? {}).forEach((node) => {
+    ids.add(node.imageId);
+    node.hotspots.forEach(({ content }) => {
+      if (content?.imageId) ids.add(content.imageId);
+      if (content?.videoId) ids.add(content.videoId);
+    });
+  });
+  project.panoramas.forEach((pano) => ids.add(pano.imageId));
+}
+
+async function getStoredProject(id: string): Promise<StoredProject> {
+  const stored = await getRecord<StoredProject>(PROJECTS_STORE, id);
+  if (!stored) {
+    throw new Error(`Project ${id} not found`);
+  }
+  return stored;
+}
+
+export function getLastProjectId(): string | null {
+  return localStorage.getItem(LAST_PROJECT_KEY);
+}
+
+export function setLastProjectId(id: string) {
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const stored = await getAllRecords<StoredProject>(PROJECTS_STORE);
+  return stored.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function createProject(name: string): Promise<Project> {
+  return queueWrite(async () => {
+    const now = Date.now();
+    const stored: StoredProject = {
+      id: generateId(),
+      name,
+      createdAt: now,
+      updatedAt: now,
+      graph: { rootId: null, nodes: {}, links: [] },
+      panoramas: [],
+    };
+    await putRecord(PROJECTS_STORE, stored);
+    return { ...toSummary(stored), graph: emptyGraph(), panoramas: [] };
+  });
+}
+
+export async function loadProject(id: string): Promise<Project> {
+  const stored = await getStoredProject(id);
+  const [graph, panoramas] = await Promise.all([
+    restoreProjectGraph(stored),
+    Promise.all(
+      stored.panoramas.map(async ({ imageId, ...rest }) => ({
+        ...rest,
+        imageUrl: await getImageUrl(imageId),
+      }))
+    ),
+  ]);
+  return { ...toSummary(stored), graph, panoramas };
+}
+
+// Fails if the project was deleted, rather than bringing it back
+export function saveProject(id: string, content: ProjectContent) {
+  return queueWrite(async () => {
+    const stored = await getStoredProject(id);
+    const [graph, panoramas] = await Promise.all([
+      storeGraph(content.graph),
+      Promise.all(
+        content.panoramas.map(async ({ imageUrl, ...rest }) => ({
+          ...rest,
+          imageId: await storeImage(imageUrl),
+        }))
+      ),
+    ]);
+    await putRecord<StoredProject>(PROJECTS_STORE, {
+      ...stored,
+      // Dropping the legacy tree completes the migration to the graph model
+      rootNode: undefined,
+      graph,
+      panoramas,
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+export function renameProject(
+  id: string,
+  name: string
+): Promise<ProjectSummary> {
+  return queueWrite(async () => {
+    const stored = await getStoredProject(id);
+    const renamed = { ...stored, name, updatedAt: Date.now() };
+    await putRecord(PROJECTS_STORE, renamed);
+    return toSummary(renamed);
+  });
+}
+
+export function duplicateProject(id: string): Promise<ProjectSummary> {
+  return queueWrite(async () => {
+    const stored = await getStoredProject(id);
+    const now = Date.now();
+    // Images are content-addressed, so the copy can share the same records.
+    const copy: StoredProject = {
+      ...stored,
+      id: generateId(),
+      name: `${stored.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await putRecord(PROJECTS_STORE, copy);
+    return toSummary(copy);
+  });
+}
+
+export function deleteProject(id: string) {
+  return queueWrite(async () => {
+    await deleteRecord(PROJECTS_STORE, id);
+    if (getLastProjectId() === id) {
+      localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+
+    const remaining = await getAllRecords<StoredProject>(PROJECTS_STORE);
+    const usedIds = new Set<string>();
+    remaining.forEach((project) => collectImageIds(project, usedIds));
+    await keepUsedPyramids(usedIds);
+    await deleteUnusedImages(usedIds);
+  });
+}
+
+let initialProject: Promise<Project> | null = null;
+
+// Opens the last used project, falling back to the most recent one or a new
+// empty project. Memoized so Strict Mode's double effects don't create two.
+export function openInitialProject(): Promise<Project> {
+  if (!initialProject) {
+    initialProject = (async () => {
+      const projects = await listProjects();
+      const lastId = getLastProjectId();
+      const target =
+        projects.find((project) => project.id === lastId) ?? projects[0];
+      const project = target
+        ? await loadProject(target.id)
+        : await createProject(DEFAULT_PROJECT_NAME);
+      setLastProjectId(project.id);
+      return project;
+    })();
+  }
+  return initialProject;
+}
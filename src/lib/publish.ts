@@ -0,0 +1,217 @@
+import { strToU8, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import { fetchImageBlob } from "./imageStore";
+import { equirectangularBlob } from "./projections";
+import { MAX_SINGLE_TEXTURE_WIDTH } from "./tilePyramid";
+import type { TileLevel } from "./tilePyramid";
+import { generateTilePyramid, storedTiles } from "./tileStore";
+import { getNodes } from "./tourGraph";
+import type {
+  Hotspot,
+  ImageNodeData,
+  PanoramaArea,
+  SceneView,
+  TourGraph,
+} from "./tourGraph";
+
+// A large image's tile pyramid, every tile inlined
+export interface PublishedTiles {
+  width: number;
+  height: number;
+  previewWidth: number;
+  levels: (TileLevel & { tiles: string[] })[];
+}
+
+export interface PublishedScene {
+  id: string;
+  label: string;
+  // Just the preview when the scene has tiles
+  image: string;
+  tiles?: PublishedTiles;
+  hotspots: Hotspot[];
+  area?: PanoramaArea;
+  initialHeading?: number;
+  view?: SceneView;
+}
+
+export interface PublishedTour {
+  name: string;
+  startSceneId: string;
+  scenes: PublishedScene[];
+}
+
+export const PLAYER_SCRIPT = "player.js";
+export const TOUR_DATA_SCRIPT = "tour-data.js";
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function playerHtml(name: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(name)}</title>
+    <style>
+      html, body { margin: 0; height: 100%; overflow: hidden; background: #000; }
+      body { font-family: system-ui, Avenir, Helvetica, Arial, sans-serif; }
+      #player { width: 100vw; height: 100vh; }
+      #scene-title {
+        position: fixed; top: 20px; left: 20px; padding: 8px 16px;
+        border-radius: 6px; background: rgba(0, 0, 0, 0.5); color: #fff;
+        font-size: 16px; pointer-events: none;
+      }
+      #info-panel {
+        position: fixed; top: 0; left: 0; bottom: 0; width: 360px; max-width: 90vw;
+        box-sizing: border-box; padding: 24px; overflow-y: auto; display: none;
+        background: rgba(26, 26, 46, 0.95); color: #fff; line-height: 1.6;
+      }
+      #info-panel h3 { margin: 0 40px 16px 0; font-size: 20px; }
+      #info-panel img, #info-panel video { width: 100%; border-radius: 8px; margin-bottom: 16px; }
+      #info-panel a { color: #60a5fa; }
+      #motion-toggle {
+        position: fixed; bottom: 20px; right: 20px; padding: 10px 16px;
+        border: none; border-radius: 6px; background: rgba(0, 0, 0, 0.5);
+        color: #fff; font-size: 14px; cursor: pointer;
+      }
+      #motion-toggle.active { background: #22c55e; }
+      #info-panel .close {
+        position: absolute; top: 16px; right: 16px; background: none; border: none;
+        color: #fff; font-size: 24px; cursor: pointer;
+      }
+    </style>
+  </head>
+  <body>
+    <div id="player"></div>
+    <div id="scene-title"></div>
+    <div id="info-panel"></div>
+    <button id="motion-toggle" hidden>Look around by moving your phone</button>
+    <script src="${TOUR_DATA_SCRIPT}"></script>
+    <script src="${PLAYER_SCRIPT}"></script>
+  </body>
+</html>
+`;
+}
+
+// The scene's image, or its preview and tiles if it's too large for one
+// texture. The player only knows equirectangular images, so other
+// projections are converted on the way out; those are never stored, so
+// their tiles are cut here.
+async function publishImage(
+  node: ImageNodeData,
+  inline: (url: string) => Promise<string>
+): Promise<Pick<PublishedScene, "image" | "tiles">> {
+  const converted = await equirectangularBlob(node.imageUrl, node.projection);
+  if (converted) {
+    const bitmap = await createImageBitmap(converted);
+    const convertedWidth = bitmap.width;
+    bitmap.close();
+    if (convertedWidth <= MAX_SINGLE_TEXTURE_WIDTH) {
+      return { image: await blobToDataUrl(converted) };
+    }
+    const pyramid = await generateTilePyramid(converted);
+    const levels = [];
+    for (const { tiles, ...level } of pyramid.levels) {
+      levels.push({
+        ...level,
+        tiles: await Promise.all(tiles.map(blobToDataUrl)),
+      });
+    }
+    const { width, height, previewWidth } = pyramid;
+    return {
+      image: await blobToDataUrl(pyramid.preview),
+      tiles: { width, height, previewWidth, levels },
+    };
+  }
+
+  const pyramid = await storedTiles(node.imageUrl, () => undefined);
+  if (!pyramid) return { image: await inline(node.imageUrl) };
+  const levels = [];
+  for (const [index, level] of pyramid.levels.entries()) {
+    const tiles: string[] = [];
+    for (let tile = 0; tile < level.columns * level.rows; tile++) {
+      tiles.push(await inline(await pyramid.tileUrl(index, tile)));
+    }
+    levels.push({ ...level, tiles });
+  }
+  const { width, height, previewWidth } = pyramid;
+  return {
+    image: await inline(pyramid.previewUrl),
+    tiles: { width, height, previewWidth, levels },
+  };
+}
+
+// Builds a static site that plays the tour without the editor. Images are
+// inlined as data URLs because browsers refuse to upload file:// images to
+// WebGL, and the scripts are classic (not module) scripts for the same reason.
+export async function publishTour(
+  name: string,
+  graph: TourGraph
+): Promise<Blob> {
+  if (!graph.rootId) {
+    throw new Error("The tour has no scenes to publish");
+  }
+
+  const playerResponse = await fetch(
+    `${import.meta.env.BASE_URL}${PLAYER_SCRIPT}`
+  );
+  if (!playerResponse.ok) {
+    throw new Error(
+      `The player bundle is missing - run "npm run build:player" first`
+    );
+  }
+
+  const dataUrls = new Map<string, string>();
+  const inline = async (url: string) => {
+    let dataUrl = dataUrls.get(url);
+    if (!dataUrl) {
+      dataUrl = await blobToDataUrl(await fetchImageBlob(url));
+      dataUrls.set(url, dataUrl);
+    }
+    return dataUrl;
+  };
+
+  const scenes: PublishedScene[] = [];
+  for (const node of getNodes(graph)) {
+    const hotspots: Hotspot[] = [];
+    for (const hotspot of node.hotspots) {
+      const content = hotspot.content && { ...hotspot.content };
+      if (content?.imageUrl) content.imageUrl = await inline(content.imageUrl);
+      if (content?.videoUrl) content.videoUrl = await inline(content.videoUrl);
+      hotspots.push({ ...hotspot, content });
+    }
+    scenes.push({
+      id: node.id,
+      label: node.label,
+      ...(await publishImage(node, inline)),
+      hotspots,
+      area: node.area,
+      initialHeading: node.initialHeading,
+      view: node.view,
+    });
+  }
+
+  const tour: PublishedTour = { name, startSceneId: graph.rootId, scenes };
+  const files: Zippable = {
+    "index.html": strToU8(playerHtml(name)),
+    [PLAYER_SCRIPT]: new Uint8Array(await playerResponse.arrayBuffer()),
+    [TOUR_DATA_SCRIPT]: strToU8(`window.TOUR_DATA = ${JSON.stringify(tour)};\n`),
+  };
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
@@ -0,0 +1,82 @@
+// Defaults and limits for how the viewer frames a scene
+import type { PanoramaArea, SceneView } from "./tourGraph";
+
+export const DEFAULT_FOV = 75;
+export const DEFAULT_MIN_FOV = 30;
+export const DEFAULT_MAX_FOV = 100;
+
+// No scene may zoom beyond these
+export const FOV_RANGE = { min: 10, max: 120 };
+
+export interface ViewLimits {
+  minFov: number;
+  maxFov: number;
+  minPitch: number;
+  maxPitch: number;
+}
+
+// The limits a scene's settings allow at vertical FOV `fov`. Unless the
+// author set them, partial panoramas keep the whole frame inside the band
+// of the sphere they cover.
+export function viewLimits(
+  view: SceneView = {},
+  area: PanoramaArea | undefined,
+  fov: number
+): ViewLimits {
+  let minPitch = -90;
+  let maxPitch = 90;
+  if (area && area.height < 1) {
+    const top = (0.5 - area.top) * 180;
+    const bottom = top - area.height * 180;
+    minPitch = bottom + fov / 2;
+    maxPitch = top - fov / 2;
+    // A band narrower than the view can only be looked at straight on
+    if (minPitch > maxPitch) {
+      minPitch = maxPitch = (top + bottom) / 2;
+    }
+  }
+  return {
+    minFov: view.minFov ?? DEFAULT_MIN_FOV,
+    maxFov: view.maxFov ?? DEFAULT_MAX_FOV,
+    minPitch: view.minPitch ?? minPitch,
+    maxPitch: view.maxPitch ?? maxPitch,
+  };
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Wraps an angle into (-180, 180]
+export function wrapDegrees(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+// Returns a message describing the first invalid setting, or null
+export function validateSceneView(view: SceneView): string | null {
+  const { minFov, maxFov, minPitch, maxPitch } = view;
+  const inRange = (value: number | undefined, min: number, max: number) =>
+    value === undefined || (value >= min && value <= max);
+  if (
+    !inRange(minFov, FOV_RANGE.min, FOV_RANGE.max) ||
+    !inRange(maxFov, FOV_RANGE.min, FOV_RANGE.max) ||
+    !inRange(view.initialFov, FOV_RANGE.min, FOV_RANGE.max)
+  ) {
+    return `Field of view must be between ${FOV_RANGE.min}° and ${FOV_RANGE.max}°`;
+  }
+  if ((minFov ?? DEFAULT_MIN_FOV) > (maxFov ?? DEFAULT_MAX_FOV)) {
+    return "The narrowest field of view can't be wider than the widest";
+  }
+  if (
+    !inRange(minPitch, -90, 90) ||
+    !inRange(maxPitch, -90, 90) ||
+    !inRange(view.initialPitch, -90, 90)
+  ) {
+    return "Pitch must be between -90° and 90°";
+  }
+  if (minPitch !== undefined && maxPitch !== undefined && minPitch > maxPitch) {
+    return "The lowest pitch can't be above the highest";
+  }
+  return null;
+}
@@ -0,0 +1,339 @@
+// Runs the OpenCV stitching pipeline off the main thread
+import { cv, whenOpenCVReady, withScope } from "./opencv";
+import type { Mat } from "./opencv";
+import {
+  detectFeatures,
+  hasOverlap,
+  keypointPositions,
+  matchFeatures,
+  releaseFeatures,
+  solveGlobalAlignment,
+} from "./panoramaAlignment";
+import type {
+  Features,
+  GlobalAlignment,
+  ImagePair,
+  Point,
+} from "./panoramaAlignment";
+import {
+  blendLayers,
+  blendableWidth,
+  compensateGains,
+  findSeams,
+  placeLayer,
+  releaseLayers,
+} from "./panoramaBlending";
+import type { Layer } from "./panoramaBlending";
+import { applyEdits } from "./panoramaEditing";
+import type { PanoramaEdits } from "./panoramaEditing";
+import {
+  centerPlacements,
+  focalLengthFromFov,
+  measureCoverage,
+  warpSpherical,
+} from "./panoramaProjection";
+import type { SphericalImage } from "./panoramaProjection";
+import { buildReport } from "./stitchDiagnostics";
+import type { PairAttempt, StitchReport } from "./stitchDiagnostics";
+import { describeSettings } from "./stitchConfig";
+import type { StitchSettings } from "./stitchConfig";
+import type { StitchRequest, StitchResponse } from "./stitcher";
+
+// Photos are matched at no more than this width. Finer detail adds little
+// to the alignment and a lot to the time and memory it takes.
+const PROXY_WIDTH = 1280;
+
+function post(message: StitchResponse) {
+  self.postMessage(message);
+}
+
+function log(message: string) {
+  post({ type: "log", message });
+}
+
+function progress(message: string) {
+  post({ type: "progress", message });
+}
+
+// Draws the photo at `factor` times its size, so a large photo never lands
+// on the OpenCV heap at more pixels than the stitch will use
+function bitmapToMat(image: ImageBitmap, factor: number): Mat {
+  const width = Math.max(1, Math.round(image.width * factor));
+  const height = Math.max(1, Math.round(image.height * factor));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { alpha: false })!;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, 0, 0, width, height);
+  return cv.matFromImageData(ctx.getImageData(0, 0, width, height));
+}
+
+// Projects a photo with the given focal length onto the sphere at `scale`,
+// shrinking it first if the projection needs fewer pixels
+function warpPhoto(
+  image: ImageBitmap,
+  focal: number,
+  scale: number
+): SphericalImage {
+  return withScope(({ track }) => {
+    const mat = track(bitmapToMat(image, Math.min(1, scale / focal)));
+    return warpSpherical(mat, (focal * mat.cols) / image.width, scale);
+  });
+}
+
+// Where each photo goes in the panorama, and how well the photos matched.
+// Positions are in pixels at `scale`, the proxies' scale.
+interface Alignment {
+  scale: number;
+  alignment: GlobalAlignment;
+  report: StitchReport;
+}
+
+// Projects downscaled proxies of the photos onto the sphere, appending them
+// to `spheres` for the caller to release, then matches every pair and
+// solves their positions
+function alignImages(
+  images: ImageBitmap[],
+  focals: number[],
+  { fov, config }: StitchSettings,
+  spheres: SphericalImage[]
+): Alignment {
+  // Every proxy shares one scale, no finer than PROXY_WIDTH allows
+  const scale = Math.min(
+    ...images.map(
+      (image, i) => focals[i] * Math.min(1, PROXY_WIDTH / image.width)
+    )
+  );
+  log(`  → Field of view ${fov}°, focal length ${Math.round(focals[0])}px`);
+
+  progress("Projecting onto the sphere...");
+  images.forEach((image, i) =>
+    spheres.push(warpPhoto(image, focals[i], scale))
+  );
+  log(`  → Matching at ${spheres[0].image.cols}px wide`);
+
+  // Match every pair to find out which photos overlap
+  progress("Finding overlapping photos...");
+  const features: Features[] = [];
+  const attempts: PairAttempt[] = [];
+  let keypoints: Point[][];
+  try {
+    spheres.forEach((sphere) => features.push(detectFeatures(sphere, config)));
+    keypoints = features.map(keypointPositions);
+    for (let i = 0; i < spheres.length; i++) {
+      for (let j = i + 1; j < spheres.length; j++) {
+        const pair = matchFeatures(features[i], features[j], config);
+        attempts.push({ from: i, to: j, pair });
+        if (hasOverlap(pair)) {
+          log(
+            `  → Images ${i + 1} & ${j + 1}: ${pair.inliers}/${pair.matches} inliers`
+          );
+        }
+      }
+    }
+  } finally {
+    features.forEach(releaseFeatures);
+  }
+
+  progress("Solving global alignment...");
+  const measured: ImagePair[] = attempts
+    .filter(({ pair }) => hasOverlap(pair))
+    .map(({ from, to, pair }) => ({
+      from,
+      to,
+      dx: pair.dx + spheres[to].centerX - spheres[from].centerX,
+      dy: pair.dy + spheres[to].centerY - spheres[from].centerY,
+      inliers: pair.inliers,
+    }));
+  const wrapWidth = 2 * Math.PI * scale;
+  const alignment = solveGlobalAlignment(spheres.length, measured, wrapWidth);
+
+  const photos = images.map((image, i) => ({
+    width: image.width,
+    height: image.height,
+    focal: focals[i],
+  }));
+  const report = buildReport(
+    photos,
+    spheres,
+    keypoints,
+    attempts,
+    alignment,
+    scale
+  );
+  for (const pair of report.pairs) {
+    if (pair.status === "good") continue;
+    log(
+      `  ⚠ Images ${pair.from + 1} & ${pair.to + 1}: ${pair.warnings.join("; ")}`
+    );
+  }
+  if (alignment.loopError !== null) {
+    const drift = (alignment.loopError / scale) * (180 / Math.PI);
+    log(`  → Closed the 360° loop, spreading ${drift.toFixed(1)}° of drift`);
+  }
+  post({ type: "report", report });
+  return { scale, alignment, report };
+}
+
+// Matches the photos and reports on them without stitching
+function analyze(images: ImageBitmap[], settings: StitchSettings) {
+  log("=== CHECKING PHOTO OVERLAP ===");
+  log(`  → Settings: ${describeSettings(settings)}`);
+  const focals = images.map((image) =>
+    focalLengthFromFov(image.width, settings.fov)
+  );
+  const spheres: SphericalImage[] = [];
+  try {
+    const { report } = alignImages(images, focals, settings, spheres);
+    const aligned = report.images.filter((image) => image.aligned).length;
+    log(`✓ ${aligned} of ${images.length} photos fit together`);
+  } finally {
+    spheres.forEach((sphere) => sphere.image.delete());
+  }
+}
+
+// Where the placed photos go, centred, in radians
+function placePhotos(
+  images: ImageBitmap[],
+  focals: number[],
+  settings: StitchSettings
+) {
+  const spheres: SphericalImage[] = [];
+  try {
+    const { scale, alignment } = alignImages(images, focals, settings, spheres);
+    const skipped = alignment.positions.flatMap((p, i) => (p ? [] : [i + 1]));
+    if (skipped.length >= spheres.length - 1) {
+      throw new Error(
+        "Not enough good matches - check image overlap in the report below"
+      );
+    }
+    if (skipped.length > 0) {
+      log(`  ⚠ Skipping image(s) ${skipped.join(", ")}: no overlap found`);
+    }
+
+    const placed = alignment.positions.flatMap((p, i) => (p ? [i] : []));
+    const placements = centerPlacements(
+      placed.map((i) => ({
+        sphere: spheres[i],
+        yaw: alignment.positions[i]!.x / scale,
+        pitch: alignment.positions[i]!.y / scale,
+      })),
+      scale
+    );
+    const coverage = measureCoverage(placements, scale);
+    log(
+      `  → Coverage: ${Math.round(coverage.horizontal)}° x ${Math.round(coverage.vertical)}°`
+    );
+    return {
+      photos: placements.map(({ yaw, pitch }, k) => ({
+        index: placed[k],
+        yaw,
+        pitch,
+      })),
+      coverage,
+    };
+  } finally {
+    spheres.forEach((sphere) => sphere.image.delete());
+  }
+}
+
+async function stitch(images: ImageBitmap[], settings: StitchSettings) {
+  log("=== PANORAMA STITCHING STARTED ===");
+  log(`  → Settings: ${describeSettings(settings)}`);
+  const { config } = settings;
+  const { blend } = config;
+  images.forEach((image, i) =>
+    log(`  → Image ${i + 1}: ${image.width}x${image.height}px`)
+  );
+
+  // Features are matched on small proxies; only the output is full size
+  const focals = images.map((image) =>
+    focalLengthFromFov(image.width, settings.fov)
+  );
+  const { photos, coverage } = placePhotos(images, focals, settings);
+
+  // The output never resolves finer than the sharpest photo
+  const finest = Math.min(...focals, config.maxOutputWidth / (2 * Math.PI));
+  const width = blendableWidth(Math.round(2 * Math.PI * finest), blend);
+  const height = width / 2;
+  const scale = width / (2 * Math.PI);
+  log(`  → Output: ${width}x${height}px`);
+
+  const layers: Layer[] = [];
+  const canvas = new OffscreenCanvas(width, height);
+  try {
+    photos.forEach(({ index, yaw, pitch }, k) => {
+      progress(`Projecting photo ${k + 1} of ${photos.length}...`);
+      const sphere = warpPhoto(images[index], focals[index], scale);
+      try {
+        layers.push(placeLayer({ sphere, yaw, pitch }, width));
+      } finally {
+        sphere.image.delete();
+      }
+    });
+
+    progress("Compensating exposure...");
+    const gains = compensateGains(layers, width);
+    gains.forEach((gain, k) =>
+      log(
+        `  → Image ${photos[k].index + 1} RGB gain ${gain.map((g) => g.toFixed(2)).join(" / ")}`
+      )
+    );
+
+    progress("Finding seams...");
+    findSeams(layers, width);
+
+    // Each finished band of rows goes straight onto the output canvas
+    const ctx = canvas.getContext("2d")!;
+    const action =
+      blend.mode === "multiband"
+        ? `Blending ${blend.bands} bands`
+        : "Feathering seams";
+    blendLayers(layers, width, blend, (tile, top) => {
+      const pixels = new Uint8ClampedArray(tile.data);
+      ctx.putImageData(new ImageData(pixels, tile.cols, tile.rows), 0, top);
+      const done = Math.round((100 * (top + tile.rows)) / height);
+      progress(`${action}... ${done}%`);
+    });
+  } finally {
+    releaseLayers(layers);
+  }
+
+  progress("Generating high-quality output...");
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  post({ type: "done", blob, width, height, coverage });
+}
+
+async function edit(image: ImageBitmap, edits: PanoramaEdits) {
+  progress("Applying edits...");
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(image, 0, 0);
+  const source = ctx.getImageData(0, 0, image.width, image.height);
+  ctx.putImageData(applyEdits(source, edits), 0, 0);
+
+  progress("Generating high-quality output...");
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  post({ type: "edited", blob });
+}
+
+self.addEventListener("message", async (event: MessageEvent<StitchRequest>) => {
+  const request = event.data;
+  try {
+    await whenOpenCVReady();
+    if (request.type === "load") {
+      post({ type: "ready" });
+    } else if (request.type === "analyze") {
+      analyze(request.images, request.settings);
+    } else if (request.type === "edit") {
+      await edit(request.images[0], request.edits);
+    } else {
+      await stitch(request.images, request.settings);
+    }
+  } catch (err) {
+    post({ type: "error", message: (err as Error).message ?? String(err) });
+  } finally {
+    if (request.type !== "load") {
+      request.images.forEach((image) => image.close());
+    }
+  }
+});
@@ -0,0 +1,150 @@
+// Tunable stitching parameters, with presets and the last-used settings
+// remembered between sessions.
+import type { BlendOptions } from "./panoramaBlending";
+
+export type FeatureDetector = "orb" | "akaze";
+
+export interface StitchConfig {
+  detector: FeatureDetector;
+  // The most keypoints kept per photo
+  maxFeatures: number;
+  // Lowe's ratio test: how much better the best match must be than the next
+  ratioTest: number;
+  // Matches agreeing on the offset within this many pixels count as inliers
+  inlierTolerance: number;
+  blend: BlendOptions;
+  // Width of the equirectangular output at most, in pixels
+  maxOutputWidth: number;
+}
+
+export type PresetName = "fast" | "balanced" | "max";
+
+export const PRESETS: Record<PresetName, StitchConfig> = {
+  fast: {
+    detector: "orb",
+    maxFeatures: 1000,
+    ratioTest: 0.7,
+    inlierTolerance: 5,
+    blend: { mode: "feather", bands: 3, featherWidth: 21 },
+    maxOutputWidth: 2048,
+  },
+  balanced: {
+    detector: "orb",
+    maxFeatures: 2000,
+    ratioTest: 0.75,
+    inlierTolerance: 4,
+    blend: { mode: "multiband", bands: 5, featherWidth: 31 },
+    maxOutputWidth: 4096,
+  },
+  max: {
+    detector: "akaze",
+    maxFeatures: 4000,
+    ratioTest: 0.8,
+    inlierTolerance: 3,
+    blend: { mode: "multiband", bands: 7, featherWidth: 41 },
+    maxOutputWidth: 6144,
+  },
+};
+
+export const PRESET_LABELS: Record<PresetName, string> = {
+  fast: "Fast",
+  balanced: "Balanced",
+  max: "Max quality",
+};
+
+export const DEFAULT_PRESET: PresetName = "balanced";
+
+// A typical phone camera's main lens, shooting landscape
+export const DEFAULT_FOV = 65;
+
+export interface StitchSettings {
+  // Horizontal field of view of each photo, in degrees
+  fov: number;
+  config: StitchConfig;
+}
+
+const SETTINGS_KEY = "tour-builder:stitch-settings";
+
+// The preset `config` matches exactly, if any
+export function findPreset(config: StitchConfig): PresetName | null {
+  const key = JSON.stringify(config);
+  const names = Object.keys(PRESETS) as PresetName[];
+  return names.find((name) => JSON.stringify(PRESETS[name]) === key) ?? null;
+}
+
+// Returns a message describing the first invalid setting, or null
+export function validateSettings({
+  fov,
+  config,
+}: StitchSettings): string | null {
+  const inRange = (value: number, min: number, max: number) =>
+    value >= min && value <= max;
+  if (!inRange(fov, 10, 170)) {
+    return "Field of view must be between 10° and 170°";
+  }
+  if (!Number.isInteger(config.maxFeatures) || config.maxFeatures < 100) {
+    return "Keep at least 100 features per photo";
+  }
+  if (!inRange(config.ratioTest, 0.5, 0.95)) {
+    return "Ratio test must be between 0.5 and 0.95";
+  }
+  if (!inRange(config.inlierTolerance, 1, 20)) {
+    return "Inlier tolerance must be between 1 and 20 pixels";
+  }
+  const { bands, featherWidth } = config.blend;
+  if (!Number.isInteger(bands) || !inRange(bands, 1, 7)) {
+    return "Band count must be a whole number between 1 and 7";
+  }
+  if (!Number.isInteger(featherWidth) || !inRange(featherWidth, 1, 201)) {
+    return "Feather width must be a whole number of pixels up to 201";
+  }
+  if (!Number.isInteger(config.maxOutputWidth)) {
+    return "Maximum output width must be a whole number of pixels";
+  }
+  if (!inRange(config.maxOutputWidth, 512, 8192)) {
+    return "Maximum output width must be between 512 and 8192 pixels";
+  }
+  return null;
+}
+
+// One line summing up the settings, for the status log
+export function describeSettings({ fov, config }: StitchSettings): string {
+  const preset = findPreset(config);
+  const { blend } = config;
+  return [
+    preset ? PRESET_LABELS[preset] : "Custom",
+    `${fov}° FOV`,
+    `${config.detector.toUpperCase()} ${config.maxFeatures} features`,
+    `ratio ${config.ratioTest}`,
+    `±${config.inlierTolerance}px`,
+    blend.mode === "multiband"
+      ? `multi-band ${blend.bands} bands`
+      : `feather ${blend.featherWidth}px`,
+    `max ${config.maxOutputWidth}px wide`,
+  ].join(", ");
+}
+
+export function loadStitchSettings(): StitchSettings {
+  const fallback = { fov: DEFAULT_FOV, config: PRESETS[DEFAULT_PRESET] };
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return fallback;
+    const settings = JSON.parse(stored) as StitchSettings;
+    // Fill in anything added since the settings were saved
+    const merged = {
+      fov: settings.fov ?? fallback.fov,
+      config: {
+        ...fallback.config,
+        ...settings.config,
+        blend: { ...fallback.config.blend, ...settings.config?.blend },
+      },
+    };
+    return validateSettings(merged) ? fallback : merged;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveStitchSettings(settings: StitchSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
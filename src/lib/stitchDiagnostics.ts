@@ -0,0 +1,182 @@
+// Summarises how well the photos matched, so weak or failed pairs can be
+// shown to the user before (or instead of) a long stitch. Positions are in
+// the original photos' pixels so they can be drawn over the uploads.
+import { hasOverlap } from "./panoramaAlignment";
+import type {
+  GlobalAlignment,
+  PairAlignment,
+  Point,
+} from "./panoramaAlignment";
+import { toPhotoPoint } from "./panoramaProjection";
+import type { SphericalImage } from "./panoramaProjection";
+
+// Below any of these a pair still aligns, but is worth a second look
+const GOOD_INLIERS = 30;
+const GOOD_INLIER_RATIO = 0.3;
+const GOOD_ERROR = 2;
+const GOOD_OVERLAP = 0.1;
+
+export type PairStatus = "good" | "weak" | "rejected" | "unmatched";
+
+export interface ImageReport {
+  width: number;
+  height: number;
+  keypoints: Point[];
+  // Whether the photo made it into the panorama
+  aligned: boolean;
+}
+
+export interface PairReport {
+  from: number;
+  to: number;
+  matches: number;
+  inliers: number;
+  inlierRatio: number;
+  // RMS distance in pixels between matched features once aligned
+  error: number;
+  // Share of the smaller photo covered by the other, from 0 to 1
+  overlap: number;
+  status: PairStatus;
+  warnings: string[];
+  inlierMatches: { from: Point; to: Point }[];
+}
+
+export interface StitchReport {
+  images: ImageReport[];
+  pairs: PairReport[];
+}
+
+// The photo a spherical image was made from
+export interface PhotoInfo {
+  width: number;
+  height: number;
+  focal: number;
+}
+
+// The result of matching photos `from` and `to`, overlapping or not
+export interface PairAttempt {
+  from: number;
+  to: number;
+  pair: PairAlignment;
+}
+
+function rms(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+}
+
+function describe(report: Omit<PairReport, "status" | "warnings">) {
+  const warnings: string[] = [];
+  if (report.inliers < GOOD_INLIERS) {
+    warnings.push(`Only ${report.inliers} matches agree`);
+  }
+  if (report.inlierRatio < GOOD_INLIER_RATIO) {
+    warnings.push(
+      `${Math.round(report.inlierRatio * 100)}% of matches agree, most are false`
+    );
+  }
+  if (report.error > GOOD_ERROR) {
+    warnings.push(`Features land ${report.error.toFixed(1)}px apart`);
+  }
+  if (report.overlap < GOOD_OVERLAP) {
+    warnings.push(
+      `Photos overlap by only ${Math.round(report.overlap * 100)}%`
+    );
+  }
+  return warnings;
+}
+
+export function buildReport(
+  photos: PhotoInfo[],
+  spheres: SphericalImage[],
+  keypoints: Point[][],
+  attempts: PairAttempt[],
+  alignment: GlobalAlignment,
+  scale: number
+): StitchReport {
+  const { positions } = alignment;
+  const toPhoto = (i: number, point: Point) =>
+    toPhotoPoint(spheres[i], point, scale, photos[i]);
+
+  const reports = attempts.map(({ from, to, pair }): PairReport => {
+    const a = spheres[from].image;
+    const b = spheres[to].image;
+
+    // Where the solved panorama puts `to` relative to `from`, or the pair's
+    // own estimate if it wasn't used
+    const used = alignment.pairs.find((p) => p.from === from && p.to === to);
+    let { dx, dy } = pair;
+    if (used && positions[from] && positions[to]) {
+      dx += positions[to].x - positions[from].x - used.dx;
+      dy += positions[to].y - positions[from].y - used.dy;
+    }
+
+    const error = rms(
+      pair.inlierMatches.map((m) =>
+        Math.hypot(m.prev.x - m.next.x - dx, m.prev.y - m.next.y - dy)
+      )
+    );
+    const overlapWidth = Math.min(a.cols, dx + b.cols) - Math.max(0, dx);
+    const overlapHeight = Math.min(a.rows, dy + b.rows) - Math.max(0, dy);
+    const overlap =
+      (Math.max(0, overlapWidth) * Math.max(0, overlapHeight)) /
+      Math.min(a.cols * a.rows, b.cols * b.rows);
+
+    const report = {
+      from,
+      to,
+      matches: pair.matches,
+      inliers: pair.inliers,
+      inlierRatio: pair.matches > 0 ? pair.inliers / pair.matches : 0,
+      error,
+      overlap: hasOverlap(pair) ? overlap : 0,
+      inlierMatches: pair.inlierMatches.map((m) => ({
+        from: toPhoto(from, m.prev),
+        to: toPhoto(to, m.next),
+      })),
+    };
+
+    if (!hasOverlap(pair)) {
+      return {
+        ...report,
+        status: "unmatched",
+        warnings: ["Too few matches agree to tell how these photos overlap"],
+      };
+    }
+    if (!used) {
+      const reason =
+        positions[from] && positions[to]
+          ? "Disagrees with the other photos, so it was left out"
+          : "Doesn't connect to the rest of the panorama";
+      return { ...report, status: "rejected", warnings: [reason] };
+    }
+    const warnings = describe(report);
+    return { ...report, status: warnings.length ? "weak" : "good", warnings };
+  });
+
+  // Unmatched pairs are only interesting for photos that were left out
+  const pairs = reports.filter((report) => report.status !== "unmatched");
+  positions.forEach((position, i) => {
+    if (position) return;
+    const attemptsWith = reports.filter(
+      (r) => r.status === "unmatched" && (r.from === i || r.to === i)
+    );
+    const closest = attemptsWith.reduce<PairReport | null>(
+      (best, r) => (!best || r.inliers > best.inliers ? r : best),
+      null
+    );
+    if (closest && closest.matches > 0 && !pairs.includes(closest)) {
+      pairs.push(closest);
+    }
+  });
+
+  return {
+    images: photos.map((photo, i) => ({
+      width: photo.width,
+      height: photo.height,
+      keypoints: keypoints[i].map((point) => toPhoto(i, point)),
+      aligned: positions[i] !== null,
+    })),
+    pairs,
+  };
+}
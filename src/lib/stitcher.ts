@@ -0,0 +1,244 @@
+// Main-thread side of the stitching worker. OpenCV and the whole stitching
+// pipeline run in `stitch.worker.ts` so the UI stays responsive.
+import type { PanoramaEdits } from "./panoramaEditing";
+import type { Coverage } from "./panoramaProjection";
+import type { StitchSettings } from "./stitchConfig";
+import type { StitchReport } from "./stitchDiagnostics";
+
+export type StitchRequest =
+  | { type: "load" }
+  | {
+      // "analyze" only matches the photos and sends back a report
+      type: "stitch" | "analyze";
+      images: ImageBitmap[];
+      settings: StitchSettings;
+    }
+  | { type: "edit"; images: ImageBitmap[]; edits: PanoramaEdits };
+
+export type StitchResponse =
+  | { type: "ready" }
+  | { type: "log"; message: string }
+  | { type: "progress"; message: string }
+  | { type: "report"; report: StitchReport }
+  | {
+      type: "done";
+      blob: Blob;
+      width: number;
+      height: number;
+      coverage: Coverage;
+    }
+  | { type: "edited"; blob: Blob }
+  | { type: "error"; message: string };
+
+// A 2:1 equirectangular image; parts of the sphere the photos didn't cover
+// are transparent.
+export interface StitchResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  coverage: Coverage;
+}
+
+export interface JobOptions {
+  onLog?: (message: string) => void;
+  onProgress?: (message: string) => void;
+  // Called once the photos have been matched, before blending starts
+  onReport?: (report: StitchReport) => void;
+  signal?: AbortSignal;
+}
+
+export interface StitchOptions extends JobOptions {
+  settings: StitchSettings;
+}
+
+// OpenCV is about 10 MB of WASM; give slow machines a while to compile it
+const LOAD_TIMEOUT_MS = 60_000;
+
+let worker: Worker | null = null;
+let ready: Promise<void> | null = null;
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./stitch.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  }
+  return worker;
+}
+
+// Cancelling terminates the worker; the next run starts a fresh one
+function discardWorker() {
+  worker?.terminate();
+  worker = null;
+  ready = null;
+}
+
+// Starts the worker and resolves once OpenCV has loaded inside it. Any
+// module can await this; after a failure the next call tries again.
+export function loadStitcher(): Promise<void> {
+  if (!ready) {
+    const current = getWorker();
+    ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => fail("OpenCV took too long to load"),
+        LOAD_TIMEOUT_MS
+      );
+      const cleanup = () => {
+        clearTimeout(timer);
+        current.removeEventListener("message", handleMessage);
+        current.removeEventListener("error", handleError);
+      };
+      const fail = (message: string) => {
+        cleanup();
+        reject(new Error(message));
+      };
+      const handleMessage = (event: MessageEvent<StitchResponse>) => {
+        if (event.data.type === "ready") {
+          cleanup();
+          resolve();
+        } else if (event.data.type === "error") {
+          fail(event.data.message);
+        }
+      };
+      // Fired when the worker script itself can't be fetched or run
+      const handleError = (event: ErrorEvent) => {
+        event.preventDefault();
+        fail(event.message || "Could not start the stitching worker");
+      };
+      current.addEventListener("message", handleMessage);
+      current.addEventListener("error", handleError);
+      current.postMessage({ type: "load" } satisfies StitchRequest);
+    });
+    ready.catch(discardWorker);
+  }
+  return ready;
+}
+
+// Decodes the images, hands them to the worker in the request `toRequest`
+// builds and settles once `finish` picks a result out of one of its messages
+async function runJob<T>(
+  files: Blob[],
+  toRequest: (images: ImageBitmap[]) => StitchRequest,
+  { onLog, onProgress, onReport, signal }: JobOptions,
+  finish: (message: StitchResponse) => T | undefined
+): Promise<T> {
+  // Decoding happens off the main thread too
+  const images = await Promise.all(
+    files.map((file) => createImageBitmap(file))
+  );
+  if (signal?.aborted) {
+    images.forEach((image) => image.close());
+    throw new DOMException("Stitching cancelled", "AbortError");
+  }
+  await loadStitcher();
+  const current = getWorker();
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      current.removeEventListener("message", handleMessage);
+      current.removeEventListener("error", handleCrash);
+      current.removeEventListener("messageerror", handleCrash);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleMessage = (event: MessageEvent<StitchResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "log":
+          onLog?.(message.message);
+          break;
+        case "progress":
+          onProgress?.(message.message);
+          break;
+        case "report":
+          onReport?.(message.report);
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          return;
+      }
+      const result = finish(message);
+      if (result !== undefined) {
+        cleanup();
+        resolve(result);
+      }
+    };
+    const handleAbort = () => {
+      cleanup();
+      discardWorker();
+      reject(new DOMException("Stitching cancelled", "AbortError"));
+    };
+    // The worker died mid-job, e.g. OpenCV aborted or ran out of memory, so
+    // the next job gets a fresh one
+    const handleCrash = (event: Event) => {
+      event.preventDefault();
+      cleanup();
+      discardWorker();
+      reject(
+        new Error(
+          event instanceof ErrorEvent && event.message
+            ? event.message
+            : "The stitching worker stopped unexpectedly"
+        )
+      );
+    };
+
+    current.addEventListener("message", handleMessage);
+    current.addEventListener("error", handleCrash);
+    current.addEventListener("messageerror", handleCrash);
+    signal?.addEventListener("abort", handleAbort);
+    // The bitmaps are transferred, not copied
+    current.postMessage(toRequest(images), { transfer: images });
+  });
+}
+
+// Stitches the images into one panorama. They can be in any order; which
+// photos overlap is worked out from their content.
+export function stitchImages(
+  files: Blob[],
+  options: StitchOptions
+): Promise<StitchResult> {
+  const { settings } = options;
+  const request = (images: ImageBitmap[]): StitchRequest => ({
+    type: "stitch",
+    images,
+    settings,
+  });
+  return runJob(files, request, options, (message) => {
+    if (message.type !== "done") return undefined;
+    const { blob, width, height, coverage } = message;
+    return { blob, width, height, coverage };
+  });
+}
+
+// Matches the images without stitching them, to check the overlaps first
+export function analyzeImages(
+  files: Blob[],
+  options: StitchOptions
+): Promise<StitchReport> {
+  const { settings } = options;
+  const request = (images: ImageBitmap[]): StitchRequest => ({
+    type: "analyze",
+    images,
+    settings,
+  });
+  return runJob(files, request, options, (message) =>
+    message.type === "report" ? message.report : undefined
+  );
+}
+
+// Levels, turns and tidies up a finished panorama at full size
+export function editPanorama(
+  panorama: Blob,
+  edits: PanoramaEdits,
+  options: JobOptions = {}
+): Promise<Blob> {
+  const request = (images: ImageBitmap[]): StitchRequest => ({
+    type: "edit",
+    images,
+    edits,
+  });
+  return runJob([panorama], request, options, (message) =>
+    message.type === "edited" ? message.blob : undefined
+  );
+}
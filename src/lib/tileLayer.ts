@@ -0,0 +1,232 @@
+// Streams a tile pyramid's tiles onto the sphere for whatever the camera
+// is looking at, picking the level that matches the screen's resolution
+// at the current zoom
+import * as THREE from "three";
+import { tileRect } from "./tilePyramid";
+import type { TileLevel, TilePyramid, TileRect } from "./tilePyramid";
+import type { PanoramaArea } from "./tourGraph";
+
+// Tiles loading at once; the rest wait for a later frame
+const MAX_LOADING = 4;
+// Loaded tiles kept before the longest unseen are dropped
+const MAX_TILES = 96;
+
+export interface TileLayer {
+  // Sits in front of the preview sphere, so it should share its transform
+  group: THREE.Group;
+  update: (camera: THREE.PerspectiveCamera, viewportHeight: number) => void;
+  dispose: () => void;
+}
+
+interface LoadedTile {
+  mesh: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial> | null;
+  // The frame the tile was last wanted in, for dropping unseen ones
+  lastWanted: number;
+}
+
+// Where a tile's sphere patch is centred, and how far its corners reach
+interface TileBounds {
+  center: THREE.Vector3;
+  radius: number;
+}
+
+// The sphere patch `rect` of an image covering `area` maps onto, as the
+// arguments to THREE.SphereGeometry
+function patchAngles(area: PanoramaArea, rect: TileRect) {
+  return {
+    phiStart: 2 * Math.PI * (area.left + area.width * rect.left),
+    phiLength: 2 * Math.PI * area.width * (rect.right - rect.left),
+    thetaStart: Math.PI * (area.top + area.height * rect.top),
+    thetaLength: Math.PI * area.height * (rect.bottom - rect.top),
+  };
+}
+
+// Matches SphereGeometry's vertices once mirrored on the x axis
+function patchPoint(phi: number, theta: number): THREE.Vector3 {
+  return new THREE.Vector3(
+    Math.cos(phi) * Math.sin(theta),
+    Math.cos(theta),
+    Math.sin(phi) * Math.sin(theta)
+  );
+}
+
+function tileBounds(area: PanoramaArea, rect: TileRect): TileBounds {
+  const { phiStart, phiLength, thetaStart, thetaLength } = patchAngles(
+    area,
+    rect
+  );
+  const center = patchPoint(
+    phiStart + phiLength / 2,
+    thetaStart + thetaLength / 2
+  );
+  // Corners and edge midpoints: a patch touching a pole bulges out between
+  // its corners
+  let radius = 0;
+  for (const s of [0, 0.5, 1]) {
+    for (const t of [0, 0.5, 1]) {
+      const point = patchPoint(
+        phiStart + phiLength * s,
+        thetaStart + thetaLength * t
+      );
+      radius = Math.max(radius, center.angleTo(point));
+    }
+  }
+  return { center, radius };
+}
+
+export function createTileLayer(
+  pyramid: TilePyramid,
+  area: PanoramaArea,
+  sphereRadius: number
+): TileLayer {
+  const group = new THREE.Group();
+  const textureLoader = new THREE.TextureLoader();
+  const tiles = new Map<string, LoadedTile>();
+  const boundsByLevel = new Map<TileLevel, TileBounds[]>();
+  let loading = 0;
+  let frame = 0;
+  let disposed = false;
+
+  const boundsOf = (level: TileLevel) => {
+    let bounds = boundsByLevel.get(level);
+    if (!bounds) {
+      bounds = [];
+      for (let row = 0; row < level.rows; row++) {
+        for (let column = 0; column < level.columns; column++) {
+          bounds.push(tileBounds(area, tileRect(level, column, row)));
+        }
+      }
+      boundsByLevel.set(level, bounds);
+    }
+    return bounds;
+  };
+
+  const disposeTile = (tile: LoadedTile) => {
+    if (!tile.mesh) return;
+    group.remove(tile.mesh);
+    tile.mesh.geometry.dispose();
+    tile.mesh.material.map?.dispose();
+    tile.mesh.material.dispose();
+  };
+
+  const loadTile = async (levelIndex: number, index: number, key: string) => {
+    const level = pyramid.levels[levelIndex];
+    const tile: LoadedTile = { mesh: null, lastWanted: frame };
+    tiles.set(key, tile);
+    loading++;
+
+    let url: string;
+    try {
+      url = await pyramid.tileUrl(levelIndex, index);
+    } catch (err) {
+      loading--;
+      console.error("Tile load error:", err);
+      return;
+    }
+    textureLoader.load(
+      url,
+      (texture) => {
+        loading--;
+        // Dropped while loading
+        if (disposed || tiles.get(key) !== tile) {
+          texture.dispose();
+          return;
+        }
+        texture.colorSpace = THREE.SRGBColorSpace;
+        const column = index % level.columns;
+        const row = Math.floor(index / level.columns);
+        const { phiStart, phiLength, thetaStart, thetaLength } = patchAngles(
+          area,
+          tileRect(level, column, row)
+        );
+        const geometry = new THREE.SphereGeometry(
+          sphereRadius,
+          Math.ceil((phiLength / (2 * Math.PI)) * 64),
+          Math.ceil((thetaLength / Math.PI) * 32),
+          phiStart,
+          phiLength,
+          thetaStart,
+          thetaLength
+        );
+        geometry.scale(-1, 1, 1);
+        tile.mesh = new THREE.Mesh(
+          geometry,
+          new THREE.MeshBasicMaterial({
+            map: texture,
+            depthTest: false,
+            depthWrite: false,
+          })
+        );
+        // Finer levels draw over coarser ones, all over the preview
+        tile.mesh.renderOrder = levelIndex + 1;
+        group.add(tile.mesh);
+      },
+      undefined,
+      (err) => {
+        loading--;
+        console.error("Tile load error:", err);
+      }
+    );
+  };
+
+  // Drops the tiles gone longest without being wanted, down to the limit
+  const evict = () => {
+    if (tiles.size <= MAX_TILES) return;
+    const unseen = [...tiles.entries()]
+      .filter(([, tile]) => tile.mesh && tile.lastWanted < frame)
+      .sort(([, a], [, b]) => a.lastWanted - b.lastWanted);
+    for (const [key, tile] of unseen) {
+      if (tiles.size <= MAX_TILES) break;
+      disposeTile(tile);
+      tiles.delete(key);
+    }
+  };
+
+  return {
+    group,
+    update: (camera, viewportHeight) => {
+      frame++;
+      // Screen pixels per degree against each level's image pixels per
+      // degree; the preview is enough until zoomed in past it
+      const density = viewportHeight / camera.fov;
+      const levelDensity = (width: number) => width / (360 * area.width);
+      if (levelDensity(pyramid.previewWidth) >= density) return;
+      let levelIndex = pyramid.levels.findIndex(
+        (level) => levelDensity(level.width) >= density
+      );
+      if (levelIndex < 0) levelIndex = pyramid.levels.length - 1;
+      const level = pyramid.levels[levelIndex];
+
+      const forward = camera.getWorldDirection(new THREE.Vector3());
+      const halfFov = THREE.MathUtils.degToRad(camera.fov / 2);
+      const reach = Math.atan(
+        Math.tan(halfFov) * Math.sqrt(1 + camera.aspect ** 2)
+      );
+      // Nearest the middle of the screen first
+      const visible = boundsOf(level)
+        .map((bounds, index) => ({
+          index,
+          angle: bounds.center.angleTo(forward),
+          radius: bounds.radius,
+        }))
+        .filter(({ angle, radius }) => angle <= reach + radius)
+        .sort((a, b) => a.angle - b.angle);
+
+      for (const { index } of visible) {
+        const key = `${levelIndex}/${index}`;
+        const tile = tiles.get(key);
+        if (tile) {
+          tile.lastWanted = frame;
+        } else if (loading < MAX_LOADING) {
+          loadTile(levelIndex, index, key);
+        }
+      }
+      evict();
+    },
+    dispose: () => {
+      disposed = true;
+      tiles.forEach(disposeTile);
+      tiles.clear();
+    },
+  };
+}
@@ -0,0 +1,86 @@
+// Large equirectangular panoramas are split into a pyramid of tiles, so no
+// texture exceeds what a GPU can hold and the viewer only uploads the
+// detail it's looking at. Pyramids are generated once, in
+// `tilePyramid.worker.ts`, and kept by whoever hosts the viewer: the
+// editor stores them next to its images (see tileStore.ts), published
+// tours ship them.
+
+export const TILE_SIZE = 512;
+// Wide enough for a sharp view at the default FOV on most screens
+export const PREVIEW_WIDTH = 2048;
+// Images up to this wide are shown as a single texture
+export const MAX_SINGLE_TEXTURE_WIDTH = 4096;
+export const TILE_QUALITY = 0.9;
+
+export interface TileLevel {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+}
+
+export interface TilePyramid {
+  // The full image's size
+  width: number;
+  height: number;
+  // A low-resolution copy of the whole image, shown under the tiles
+  previewUrl: string;
+  previewWidth: number;
+  // Coarsest first; the last is full resolution
+  levels: TileLevel[];
+  // Where tile `index`, counted row by row, of level `level` loads from
+  tileUrl: (level: number, index: number) => Promise<string>;
+}
+
+// Finds the pyramid for an image, or null to show it as a single texture.
+// `onPreview` may be called first when the pyramid takes a while to make.
+export type TileSource = (
+  imageUrl: string,
+  onPreview: (previewUrl: string) => void
+) => Promise<TilePyramid | null>;
+
+// A pyramid fresh from the worker, before it's stored or published
+export interface GeneratedPyramid {
+  width: number;
+  height: number;
+  preview: Blob;
+  previewWidth: number;
+  levels: (TileLevel & { tiles: Blob[] })[];
+}
+
+export type TilePyramidResponse =
+  | { type: "preview"; blob: Blob }
+  | { type: "done"; pyramid: GeneratedPyramid }
+  | { type: "error"; message: string };
+
+// A tile's extent as fractions of the image
+export interface TileRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Doubling widths from twice the preview's up to the full image, skipping
+// any too close to full size to be worth a level of their own
+export function levelSizes(width: number, height: number) {
+  const sizes: { width: number; height: number }[] = [];
+  for (let w = PREVIEW_WIDTH * 2; w * 1.5 < width; w *= 2) {
+    sizes.push({ width: w, height: Math.round((w * height) / width) });
+  }
+  sizes.push({ width, height });
+  return sizes;
+}
+
+export function tileRect(
+  level: TileLevel,
+  column: number,
+  row: number
+): TileRect {
+  return {
+    left: (column * TILE_SIZE) / level.width,
+    top: (row * TILE_SIZE) / level.height,
+    right: Math.min(1, ((column + 1) * TILE_SIZE) / level.width),
+    bottom: Math.min(1, ((row + 1) * TILE_SIZE) / level.height),
+  };
+}
@@ -0,0 +1,91 @@
+// Cuts a panorama into its tile pyramid off the main thread
+import {
+  PREVIEW_WIDTH,
+  TILE_QUALITY,
+  TILE_SIZE,
+  levelSizes,
+} from "./tilePyramid";
+import type {
+  GeneratedPyramid,
+  TileLevel,
+  TilePyramidResponse,
+} from "./tilePyramid";
+
+function post(message: TilePyramidResponse) {
+  self.postMessage(message);
+}
+
+function toJpeg(canvas: OffscreenCanvas): Promise<Blob> {
+  return canvas.convertToBlob({ type: "image/jpeg", quality: TILE_QUALITY });
+}
+
+// Each tile is drawn straight from the full image, however coarse the level
+async function cutLevel(image: ImageBitmap, level: TileLevel): Promise<Blob[]> {
+  const canvas = new OffscreenCanvas(TILE_SIZE, TILE_SIZE);
+  const ctx = canvas.getContext("2d")!;
+  const scale = image.width / level.width;
+  const tiles: Blob[] = [];
+  for (let row = 0; row < level.rows; row++) {
+    for (let column = 0; column < level.columns; column++) {
+      // Edge tiles are cut short rather than padded, so every pixel of a
+      // tile is image
+      const tileWidth = Math.min(TILE_SIZE, level.width - column * TILE_SIZE);
+      const tileHeight = Math.min(TILE_SIZE, level.height - row * TILE_SIZE);
+      canvas.width = tileWidth;
+      canvas.height = tileHeight;
+      ctx.drawImage(
+        image,
+        column * TILE_SIZE * scale,
+        row * TILE_SIZE * scale,
+        tileWidth * scale,
+        tileHeight * scale,
+        0,
+        0,
+        tileWidth,
+        tileHeight
+      );
+      tiles.push(await toJpeg(canvas));
+    }
+  }
+  return tiles;
+}
+
+self.addEventListener("message", async (event: MessageEvent<Blob>) => {
+  let image: ImageBitmap | null = null;
+  try {
+    image = await createImageBitmap(event.data);
+    const { width, height } = image;
+
+    const previewWidth = Math.min(width, PREVIEW_WIDTH);
+    const preview = new OffscreenCanvas(
+      previewWidth,
+      Math.round((previewWidth * height) / width)
+    );
+    preview
+      .getContext("2d")!
+      .drawImage(image, 0, 0, preview.width, preview.height);
+    const previewBlob = await toJpeg(preview);
+    post({ type: "preview", blob: previewBlob });
+
+    const pyramid: GeneratedPyramid = {
+      width,
+      height,
+      preview: previewBlob,
+      previewWidth,
+      levels: [],
+    };
+    for (const size of levelSizes(width, height)) {
+      const level: TileLevel = {
+        ...size,
+        columns: Math.ceil(size.width / TILE_SIZE),
+        rows: Math.ceil(size.height / TILE_SIZE),
+      };
+      pyramid.levels.push({ ...level, tiles: await cutLevel(image, level) });
+    }
+    post({ type: "done", pyramid });
+  } catch (err) {
+    post({ type: "error", message: (err as Error).message ?? String(err) });
+  } finally {
+    image?.close();
+  }
+});
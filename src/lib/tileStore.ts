@@ -0,0 +1,188 @@
+// The editor's tile pyramids: cut once per image, stored alongside the
+// images and streamed from there on every later visit
+import {
+  PYRAMIDS_STORE,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+  queueWrite,
+} from "./db";
+import {
+  fetchImageBlob,
+  getImageId,
+  getImageUrl,
+  storeBlob,
+} from "./imageStore";
+import { MAX_SINGLE_TEXTURE_WIDTH } from "./tilePyramid";
+import type {
+  GeneratedPyramid,
+  TileLevel,
+  TilePyramid,
+  TilePyramidResponse,
+  TileSource,
+} from "./tilePyramid";
+
+interface StoredPyramid {
+  // The id of the image the tiles were cut from
+  id: string;
+  width: number;
+  height: number;
+  previewId: string;
+  previewWidth: number;
+  levels: (TileLevel & { tileIds: string[] })[];
+}
+
+// A pyramid being looked up or generated, shared by everyone asking for it
+interface PyramidRequest {
+  pyramid: Promise<TilePyramid | null>;
+  previewUrl?: string;
+  onPreview: Set<(previewUrl: string) => void>;
+}
+
+const requests = new Map<string, PyramidRequest>();
+
+// Only fetches as much of the image as it takes to learn its size
+function imageWidth(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image.naturalWidth);
+    image.onerror = () => reject(new Error("Could not read image size"));
+    image.src = url;
+  });
+}
+
+// Splits `image` into tiles in a worker, so neither decoding nor drawing
+// it blocks the page. The preview is handed to `onPreview` as soon as it
+// exists.
+export function generateTilePyramid(
+  image: Blob,
+  onPreview?: (preview: Blob) => void
+): Promise<GeneratedPyramid> {
+  const worker = new Worker(
+    new URL("./tilePyramid.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+  return new Promise<GeneratedPyramid>((resolve, reject) => {
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<TilePyramidResponse>) => {
+        const message = event.data;
+        if (message.type === "preview") {
+          onPreview?.(message.blob);
+        } else if (message.type === "done") {
+          resolve(message.pyramid);
+        } else {
+          reject(new Error(message.message));
+        }
+      }
+    );
+    worker.addEventListener("error", (event) => {
+      event.preventDefault();
+      reject(new Error(event.message || "The tiling worker stopped"));
+    });
+    worker.postMessage(image);
+  }).finally(() => worker.terminate());
+}
+
+async function restorePyramid(stored: StoredPyramid): Promise<TilePyramid> {
+  const { width, height, previewWidth, levels } = stored;
+  return {
+    width,
+    height,
+    previewUrl: await getImageUrl(stored.previewId),
+    previewWidth,
+    levels: levels.map((level) => ({
+      width: level.width,
+      height: level.height,
+      columns: level.columns,
+      rows: level.rows,
+    })),
+    tileUrl: (level, index) => getImageUrl(levels[level].tileIds[index]),
+  };
+}
+
+function storePyramid(
+  id: string,
+  generated: GeneratedPyramid
+): Promise<StoredPyramid> {
+  return queueWrite(async () => {
+    const { width, height, previewWidth } = generated;
+    const levels: StoredPyramid["levels"] = [];
+    for (const { tiles, ...level } of generated.levels) {
+      const tileIds: string[] = [];
+      for (const tile of tiles) tileIds.push(await storeBlob(tile));
+      levels.push({ ...level, tileIds });
+    }
+    const stored: StoredPyramid = {
+      id,
+      width,
+      height,
+      previewId: await storeBlob(generated.preview),
+      previewWidth,
+      levels,
+    };
+    await putRecord(PYRAMIDS_STORE, stored);
+    return stored;
+  });
+}
+
+async function findPyramid(
+  imageUrl: string,
+  request: PyramidRequest
+): Promise<TilePyramid | null> {
+  if ((await imageWidth(imageUrl)) <= MAX_SINGLE_TEXTURE_WIDTH) return null;
+  const id = await getImageId(imageUrl);
+  const stored = await getRecord<StoredPyramid>(PYRAMIDS_STORE, id);
+  if (stored) return restorePyramid(stored);
+
+  const generated = await generateTilePyramid(
+    await fetchImageBlob(imageUrl),
+    (preview) => {
+      request.previewUrl = URL.createObjectURL(preview);
+      request.onPreview.forEach((listener) => listener(request.previewUrl!));
+      request.onPreview.clear();
+    }
+  );
+  return restorePyramid(await storePyramid(id, generated));
+}
+
+export const storedTiles: TileSource = (imageUrl, onPreview) => {
+  let request = requests.get(imageUrl);
+  if (!request) {
+    const created: PyramidRequest = {
+      pyramid: Promise.resolve(null),
+      onPreview: new Set(),
+    };
+    created.pyramid = findPyramid(imageUrl, created).catch((err) => {
+      console.error("Failed to tile panorama:", err);
+      // Let a later visit try again
+      requests.delete(imageUrl);
+      return null;
+    });
+    requests.set(imageUrl, created);
+    request = created;
+  }
+  if (request.previewUrl) {
+    onPreview(request.previewUrl);
+  } else {
+    request.onPreview.add(onPreview);
+  }
+  return request.pyramid;
+};
+
+// Drops the pyramids of images no project uses, and adds the tiles of the
+// rest to `usedIds` so image clean-up keeps them
+export async function keepUsedPyramids(usedIds: Set<string>) {
+  const pyramids = await getAllRecords<StoredPyramid>(PYRAMIDS_STORE);
+  for (const pyramid of pyramids) {
+    if (!usedIds.has(pyramid.id)) {
+      await deleteRecord(PYRAMIDS_STORE, pyramid.id);
+      continue;
+    }
+    usedIds.add(pyramid.previewId);
+    pyramid.levels.forEach(({ tileIds }) =>
+      tileIds.forEach((tileId) => usedIds.add(tileId))
+    );
+  }
+}
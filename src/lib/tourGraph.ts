@@ -0,0 +1,462 @@
+// What an info hotspot shows when clicked. Media fields hold object URLs
+// at runtime and are swapped for stored ids or file paths on save/export.
+export interface HotspotContent {
+  text?: string;
+  imageUrl?: string;
+  linkUrl?: string;
+  videoUrl?: string;
+}
+
+// Hotspot links may only open web pages, never javascript: or data: URLs
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// How the view moves to a link's target scene
+export type TransitionType = "crossfade" | "zoom" | "blur" | "none";
+
+export interface Hotspot {
+  id: string;
+  position: { x: number; y: number; z: number };
+  type: "info" | "link";
+  label: string;
+  targetNodeId?: string;
+  content?: HotspotContent;
+  // Link hotspots only. Without an arrival heading, the target scene opens
+  // on its own starting view.
+  transition?: TransitionType;
+  arrivalHeading?: number;
+}
+
+// The part of the full sphere a partial panorama covers, as fractions of
+// the full equirectangular image's width and height
+export interface PanoramaArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  // Metres above sea level
+  altitude?: number;
+}
+
+// How an image maps onto the sphere. Cubemaps are a cross of six faces;
+// dual-fisheye frames hold a 360 camera's two lenses side by side.
+export type ProjectionType = "equirectangular" | "cubemap" | "dual-fisheye";
+
+// What an uploaded image, its EXIF and its photo-sphere XMP say about the
+// scene
+export interface SceneMetadata {
+  // Equirectangular unless set
+  projection?: ProjectionType;
+  // Unset for images covering the whole sphere
+  area?: PanoramaArea;
+  // Where the view starts, in degrees clockwise from the image's centre
+  initialHeading?: number;
+  // Compass heading of the image's centre, in degrees clockwise from north
+  compassHeading?: number;
+  location?: GeoLocation;
+  // ISO 8601 local time the photo was taken, with its UTC offset if known
+  capturedAt?: string;
+}
+
+// How the viewer frames a scene, all in degrees. Yaw is clockwise from the
+// image's centre and pitch is up from the horizon; FOV is vertical.
+export interface SceneView {
+  initialYaw?: number;
+  initialPitch?: number;
+  initialFov?: number;
+  minFov?: number;
+  maxFov?: number;
+  // Partial panoramas are clamped to their covered band unless these are set
+  minPitch?: number;
+  maxPitch?: number;
+}
+
+export interface ImageNodeData extends SceneMetadata {
+  id: string;
+  imageUrl: string;
+  label: string;
+  hotspots: Hotspot[];
+  view?: SceneView;
+}
+
+// A directed edge: scene `from` can navigate to scene `to`
+export interface SceneLink {
+  from: string;
+  to: string;
+}
+
+export interface TourGraph {
+  rootId: string | null;
+  nodes: Record<string, ImageNodeData>;
+  links: SceneLink[];
+}
+
+// The tree shape tours were stored in before scenes became a graph
+export interface LegacyImageNode extends ImageNodeData {
+  children: LegacyImageNode[];
+}
+
+// A spanning-tree view of the graph used to draw it as a tree. Edges that
+// don't fit the tree show up as `crossLinks`.
+export interface LayoutNode {
+  node: ImageNodeData;
+  children: LayoutNode[];
+  crossLinks: ImageNodeData[];
+}
+
+export function emptyGraph(): TourGraph {
+  return { rootId: null, nodes: {}, links: [] };
+}
+
+export function getRootNode(graph: TourGraph): ImageNodeData | null {
+  return graph.rootId ? graph.nodes[graph.rootId] ?? null : null;
+}
+
+export function getNodes(graph: TourGraph): ImageNodeData[] {
+  return Object.values(graph.nodes);
+}
+
+export function hasLink(graph: TourGraph, from: string, to: string): boolean {
+  return graph.links.some((link) => link.from === from && link.to === to);
+}
+
+export function getLinkedNodes(
+  graph: TourGraph,
+  from: string
+): ImageNodeData[] {
+  return graph.links
+    .filter((link) => link.from === from && graph.nodes[link.to])
+    .map((link) => graph.nodes[link.to]);
+}
+
+export function addLink(graph: TourGraph, from: string, to: string): TourGraph {
+  if (from === to || hasLink(graph, from, to)) return graph;
+  return { ...graph, links: [...graph.links, { from, to }] };
+}
+
+// Adds a scene, linked from `parentId` when given. The first scene becomes
+// the tour's starting scene.
+export function addScene(
+  graph: TourGraph,
+  node: ImageNodeData,
+  parentId?: string | null
+): TourGraph {
+  const next: TourGraph = {
+    ...graph,
+    rootId: graph.rootId ?? node.id,
+    nodes: { ...graph.nodes, [node.id]: node },
+  };
+  return parentId ? addLink(next, parentId, node.id) : next;
+}
+
+export function updateNode(
+  graph: TourGraph,
+  nodeId: string,
+  update: (node: ImageNodeData) => ImageNodeData
+): TourGraph {
+  const node = graph.nodes[nodeId];
+  if (!node) return graph;
+  return { ...graph, nodes: { ...graph.nodes, [nodeId]: update(node) } };
+}
+
+export function addHotspot(
+  graph: TourGraph,
+  nodeId: string,
+  hotspot: Hotspot
+): TourGraph {
+  const next = updateNode(graph, nodeId, (node) => ({
+    ...node,
+    hotspots: [...node.hotspots, hotspot],
+  }));
+  return hotspot.type === "link" && hotspot.targetNodeId
+    ? addLink(next, nodeId, hotspot.targetNodeId)
+    : next;
+}
+
+export function updateHotspot(
+  graph: TourGraph,
+  nodeId: string,
+  hotspot: Hotspot
+): TourGraph {
+  const next = updateNode(graph, nodeId, (node) => ({
+    ...node,
+    hotspots: node.hotspots.map((existing) =>
+      existing.id === hotspot.id ? hotspot : existing
+    ),
+  }));
+  return hotspot.type === "link" && hotspot.targetNodeId
+    ? addLink(next, nodeId, hotspot.targetNodeId)
+    : next;
+}
+
+export function removeHotspot(
+  graph: TourGraph,
+  nodeId: string,
+  hotspotId: string
+): TourGraph {
+  return updateNode(graph, nodeId, (node) => ({
+    ...node,
+    hotspots: node.hotspots.filter((hotspot) => hotspot.id !== hotspotId),
+  }));
+}
+
+export function setSceneView(
+  graph: TourGraph,
+  nodeId: string,
+  view: SceneView
+): TourGraph {
+  return updateNode(graph, nodeId, (node) => ({ ...node, view }));
+}
+
+export function setSceneProjection(
+  graph: TourGraph,
+  nodeId: string,
+  projection: ProjectionType
+): TourGraph {
+  return updateNode(graph, nodeId, (node) => ({ ...node, projection }));
+}
+
+export function renameScene(
+  graph: TourGraph,
+  nodeId: string,
+  label: string
+): TourGraph {
+  return updateNode(graph, nodeId, (node) => ({ ...node, label }));
+}
+
+// Swaps in a new image along with its metadata; hotspots stay where they
+// were placed
+export function replaceSceneImage(
+  graph: TourGraph,
+  nodeId: string,
+  imageUrl: string,
+  metadata: SceneMetadata = {}
+): TourGraph {
+  return updateNode(graph, nodeId, (node) => ({
+    ...node,
+    imageUrl,
+    projection: metadata.projection,
+    area: metadata.area,
+    initialHeading: metadata.initialHeading,
+    compassHeading: metadata.compassHeading,
+    location: metadata.location,
+    capturedAt: metadata.capturedAt,
+  }));
+}
+
+// Removes a scene along with its links and any link hotspots pointing at
+// it. Scenes only reachable through it are re-linked from its first parent
+// so they stay in the same branch of the tree.
+export function removeScene(graph: TourGraph, nodeId: string): TourGraph {
+  if (!graph.nodes[nodeId]) return graph;
+  const parentIds = graph.links
+    .filter((link) => link.to === nodeId && link.from !== nodeId)
+    .map((link) => link.from);
+  const childIds = graph.links
+    .filter((link) => link.from === nodeId && link.to !== nodeId)
+    .map((link) => link.to);
+
+  const nodes: Record<string, ImageNodeData> = {};
+  Object.values(graph.nodes).forEach((node) => {
+    if (node.id === nodeId) return;
+    nodes[node.id] = node.hotspots.some((h) => h.targetNodeId === nodeId)
+      ? {
+          ...node,
+          hotspots: node.hotspots.filter((h) => h.targetNodeId !== nodeId),
+        }
+      : node;
+  });
+  const remaining = Object.keys(nodes);
+  const rootId =
+    graph.rootId === nodeId
+      ? childIds[0] ?? remaining[0] ?? null
+      : graph.rootId;
+
+  let next: TourGraph = {
+    rootId,
+    nodes,
+    links: graph.links.filter(
+      (link) => link.from !== nodeId && link.to !== nodeId
+    ),
+  };
+  // Without a parent, the scene that took over as start adopts the rest
+  const adoptiveId = parentIds[0] ?? (graph.rootId === nodeId ? rootId : null);
+  if (adoptiveId) {
+    childIds.forEach((childId) => {
+      if (childId !== rootId && !next.links.some((l) => l.to === childId)) {
+        next = addLink(next, adoptiveId, childId);
+      }
+    });
+  }
+  return next;
+}
+
+// The old parent's link hotspots that lead to `nodeId`, which moving the
+// scene away from it removes
+export function movedLinkHotspots(
+  graph: TourGraph,
+  nodeId: string,
+  fromId: string | null
+): Hotspot[] {
+  if (fromId === null) return [];
+  return (graph.nodes[fromId]?.hotspots ?? []).filter(
+    (h) => h.type === "link" && h.targetNodeId === nodeId
+  );
+}
+
+// Moves a scene (and the branch under it) from `fromId` to `toId` in the
+// tree. The old edge goes, along with the old parent's link hotspots to
+// the scene, since they would keep it in place.
+export function moveScene(
+  graph: TourGraph,
+  nodeId: string,
+  fromId: string | null,
+  toId: string
+): TourGraph {
+  if (!graph.nodes[nodeId] || !graph.nodes[toId] || nodeId === toId) {
+    return graph;
+  }
+  if (fromId === null || !graph.nodes[fromId]) {
+    return addLink(graph, toId, nodeId);
+  }
+  const removed = movedLinkHotspots(graph, nodeId, fromId);
+  const from = graph.nodes[fromId];
+  const next: TourGraph = {
+    ...graph,
+    nodes: {
+      ...graph.nodes,
+      [fromId]: {
+        ...from,
+        hotspots: from.hotspots.filter((h) => !removed.includes(h)),
+      },
+    },
+    links: graph.links.filter(
+      (link) => !(link.from === fromId && link.to === nodeId)
+    ),
+  };
+  return addLink(next, toId, nodeId);
+}
+
+// Adds every scene and link of `other`, linking `attachToId` to its root
+export function mergeGraph(
+  graph: TourGraph,
+  other: TourGraph,
+  attachToId: string | null
+): TourGraph {
+  const merged: TourGraph = {
+    rootId: graph.rootId ?? other.rootId,
+    nodes: { ...graph.nodes, ...other.nodes },
+    links: [...graph.links, ...other.links],
+  };
+  return attachToId && other.rootId
+    ? addLink(merged, attachToId, other.rootId)
+    : merged;
+}
+
+export function layoutGraph(graph: TourGraph): LayoutNode[] {
+  const visited = new Set<string>();
+  const outgoing = new Map<string, string[]>();
+  graph.links.forEach((link) => {
+    if (!graph.nodes[link.to]) return;
+    outgoing.set(link.from, [...(outgoing.get(link.from) ?? []), link.to]);
+  });
+
+  // Breadth-first so each scene sits under the scene closest to the root
+  const buildFrom = (startId: string): LayoutNode => {
+    const layouts = new Map<string, LayoutNode>();
+    const queue = [startId];
+    visited.add(startId);
+    layouts.set(startId, {
+      node: graph.nodes[startId],
+      children: [],
+      crossLinks: [],
+    });
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const layout = layouts.get(id)!;
+      for (const targetId of outgoing.get(id) ?? []) {
+        if (visited.has(targetId)) {
+          layout.crossLinks.push(graph.nodes[targetId]);
+          continue;
+        }
+        visited.add(targetId);
+        const child: LayoutNode = {
+          node: graph.nodes[targetId],
+          children: [],
+          crossLinks: [],
+        };
+        layouts.set(targetId, child);
+        layout.children.push(child);
+        queue.push(targetId);
+      }
+    }
+    return layouts.get(startId)!;
+  };
+
+  const roots: LayoutNode[] = [];
+  if (graph.rootId && graph.nodes[graph.rootId]) {
+    roots.push(buildFrom(graph.rootId));
+  }
+  // Scenes the starting scene can't reach are laid out as separate trees
+  for (const id of Object.keys(graph.nodes)) {
+    if (!visited.has(id)) roots.push(buildFrom(id));
+  }
+  return roots;
+}
+
+// Finds a scene in a laid out tree along with its parent in that tree
+export function findInLayout(
+  layouts: LayoutNode[],
+  nodeId: string
+): { layout: LayoutNode; parent: LayoutNode | null } | null {
+  const search = (
+    layout: LayoutNode,
+    parent: LayoutNode | null
+  ): { layout: LayoutNode; parent: LayoutNode | null } | null => {
+    if (layout.node.id === nodeId) return { layout, parent };
+    for (const child of layout.children) {
+      const found = search(child, layout);
+      if (found) return found;
+    }
+    return null;
+  };
+  for (const root of layouts) {
+    const found = search(root, null);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function isInBranch(layout: LayoutNode, nodeId: string): boolean {
+  return (
+    layout.node.id === nodeId ||
+    layout.children.some((child) => isInBranch(child, nodeId))
+  );
+}
+
+export function migrateLegacyTree(root: LegacyImageNode): TourGraph {
+  let graph: TourGraph = { rootId: root.id, nodes: {}, links: [] };
+  const visit = (legacy: LegacyImageNode, parentId: string | null) => {
+    const { children, ...node } = legacy;
+    graph = addScene(graph, node, parentId);
+    children.forEach((child) => visit(child, legacy.id));
+  };
+  visit(root, null);
+
+  // Link hotspots may point anywhere in the old tree; make them edges too
+  getNodes(graph).forEach((node) =>
+    node.hotspots.forEach((hotspot) => {
+      if (hotspot.type === "link" && hotspot.targetNodeId) {
+        graph = addLink(graph, node.id, hotspot.targetNodeId);
+      }
+    })
+  );
+  return graph;
+}
@@ -0,0 +1,284 @@
+import type { SavedPanorama } from "../components/ImageTree";
+import { findPanoramaUsage } from "./panoramaLibrary";
+import {
+  addHotspot,
+  addScene,
+  mergeGraph,
+  moveScene,
+  movedLinkHotspots,
+  removeHotspot,
+  removeScene,
+  renameScene,
+  replaceSceneImage,
+  setSceneProjection,
+  setSceneView,
+  updateHotspot,
+} from "./tourGraph";
+import type {
+  Hotspot,
+  ImageNodeData,
+  ProjectionType,
+  SceneMetadata,
+  SceneView,
+  TourGraph,
+} from "./tourGraph";
+
+export interface TourState {
+  graph: TourGraph;
+  panoramas: SavedPanorama[];
+}
+
+// Every edit to a tour goes through one of these commands so it can be
+// recorded in the undo history.
+export type TourAction =
+  | { type: "addScene"; node: ImageNodeData; parentId: string | null }
+  | { type: "renameScene"; nodeId: string; label: string }
+  | {
+      type: "replaceImage";
+      nodeId: string;
+      imageUrl: string;
+      metadata?: SceneMetadata;
+    }
+  | { type: "removeScene"; nodeId: string }
+  | { type: "setSceneView"; nodeId: string; view: SceneView }
+  | { type: "setProjection"; nodeId: string; projection: ProjectionType }
+  | {
+      type: "moveScene";
+      nodeId: string;
+      fromId: string | null;
+      toId: string;
+    }
+  | { type: "addHotspot"; nodeId: string; hotspot: Hotspot }
+  | { type: "updateHotspot"; nodeId: string; hotspot: Hotspot }
+  | { type: "removeHotspot"; nodeId: string; hotspotId: string }
+  | {
+      type: "importTour";
+      name: string;
+      graph: TourGraph;
+      panoramas: SavedPanorama[];
+    }
+  | { type: "addPanorama"; panorama: SavedPanorama }
+  | { type: "renamePanorama"; panoramaId: string; name: string }
+  // Without `cascade`, a panorama that scenes still show is kept
+  | { type: "removePanorama"; panoramaId: string; cascade: boolean };
+
+export type HistoryAction =
+  | TourAction
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "jump"; index: number }
+  | { type: "reset"; state: TourState; label: string };
+
+export interface HistoryEntry {
+  label: string;
+  state: TourState;
+}
+
+// `entries[index]` is the current state; entries after it can be redone
+export interface TourHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+const MAX_HISTORY = 100;
+
+export function tourReducer(state: TourState, action: TourAction): TourState {
+  switch (action.type) {
+    case "addScene":
+      return {
+        ...state,
+        graph: addScene(state.graph, action.node, action.parentId),
+      };
+    case "renameScene":
+      return {
+        ...state,
+        graph: renameScene(state.graph, action.nodeId, action.label),
+      };
+    case "replaceImage":
+      return {
+        ...state,
+        graph: replaceSceneImage(
+          state.graph,
+          action.nodeId,
+          action.imageUrl,
+          action.metadata
+        ),
+      };
+    case "removeScene":
+      return { ...state, graph: removeScene(state.graph, action.nodeId) };
+    case "setSceneView":
+      return {
+        ...state,
+        graph: setSceneView(state.graph, action.nodeId, action.view),
+      };
+    case "setProjection":
+      return {
+        ...state,
+        graph: setSceneProjection(
+          state.graph,
+          action.nodeId,
+          action.projection
+        ),
+      };
+    case "moveScene":
+      return {
+        ...state,
+        graph: moveScene(
+          state.graph,
+          action.nodeId,
+          action.fromId,
+          action.toId
+        ),
+      };
+    case "addHotspot":
+      return {
+        ...state,
+        graph: addHotspot(state.graph, action.nodeId, action.hotspot),
+      };
+    case "updateHotspot":
+      return {
+        ...state,
+        graph: updateHotspot(state.graph, action.nodeId, action.hotspot),
+      };
+    case "removeHotspot":
+      return {
+        ...state,
+        graph: removeHotspot(state.graph, action.nodeId, action.hotspotId),
+      };
+    case "importTour":
+      // An empty tour takes the imported scenes as-is; otherwise the
+      // imported starting scene is linked from the current one.
+      return {
+        graph: mergeGraph(state.graph, action.graph, state.graph.rootId),
+        panoramas: [...state.panoramas, ...action.panoramas],
+      };
+    case "addPanorama":
+      return { ...state, panoramas: [...state.panoramas, action.panorama] };
+    case "renamePanorama":
+      return {
+        ...state,
+        panoramas: state.panoramas.map((pano) =>
+          pano.id === action.panoramaId ? { ...pano, name: action.name } : pano
+        ),
+      };
+    case "removePanorama": {
+      const panorama = state.panoramas.find(
+        (pano) => pano.id === action.panoramaId
+      );
+      if (!panorama) return state;
+      const usage = findPanoramaUsage(state.graph, panorama);
+      if (usage.length > 0 && !action.cascade) return state;
+      return {
+        graph: usage.reduce(
+          (graph, node) => removeScene(graph, node.id),
+          state.graph
+        ),
+        panoramas: state.panoramas.filter((pano) => pano !== panorama),
+      };
+    }
+  }
+}
+
+function describeAction(state: TourState, action: TourAction): string {
+  const nodeLabel = (id: string) => state.graph.nodes[id]?.label ?? "scene";
+  const panoramaName = (id: string) =>
+    `"${state.panoramas.find((pano) => pano.id === id)?.name ?? ""}"`;
+  switch (action.type) {
+    case "addScene":
+      return `Add scene "${action.node.label}"`;
+    case "renameScene":
+      return `Rename ${nodeLabel(action.nodeId)} to "${action.label}"`;
+    case "replaceImage":
+      return `Replace image of ${nodeLabel(action.nodeId)}`;
+    case "removeScene":
+      return `Delete scene ${nodeLabel(action.nodeId)}`;
+    case "setSceneView":
+      return `Change view settings of ${nodeLabel(action.nodeId)}`;
+    case "setProjection":
+      return `Change projection of ${nodeLabel(action.nodeId)}`;
+    case "moveScene": {
+      const scene = nodeLabel(action.nodeId);
+      const move = `Move ${scene} under ${nodeLabel(action.toId)}`;
+      const removed = movedLinkHotspots(
+        state.graph,
+        action.nodeId,
+        action.fromId
+      ).length;
+      return removed > 0
+        ? `${move}, removing ${removed} link hotspot${removed > 1 ? "s" : ""}`
+        : move;
+    }
+    case "addHotspot": {
+      const scene = nodeLabel(action.nodeId);
+      return `Add hotspot "${action.hotspot.label}" to ${scene}`;
+    }
+    case "updateHotspot":
+      return `Edit hotspot "${action.hotspot.label}"`;
+    case "removeHotspot": {
+      const hotspot = state.graph.nodes[action.nodeId]?.hotspots.find(
+        (h) => h.id === action.hotspotId
+      );
+      return `Delete hotspot "${hotspot?.label ?? ""}"`;
+    }
+    case "importTour":
+      return `Import "${action.name}"`;
+    case "addPanorama":
+      return `Save panorama "${action.panorama.name}"`;
+    case "renamePanorama":
+      return `Rename panorama ${panoramaName(action.panoramaId)} to "${action.name}"`;
+    case "removePanorama": {
+      const panorama = state.panoramas.find(
+        (pano) => pano.id === action.panoramaId
+      );
+      const scenes = panorama
+        ? findPanoramaUsage(state.graph, panorama).length
+        : 0;
+      const label = `Delete panorama ${panoramaName(action.panoramaId)}`;
+      return scenes > 0
+        ? `${label} and ${scenes} scene${scenes === 1 ? "" : "s"}`
+        : label;
+    }
+  }
+}
+
+export function createHistory(state: TourState, label: string): TourHistory {
+  return { entries: [{ label, state }], index: 0 };
+}
+
+export function currentState(history: TourHistory): TourState {
+  return history.entries[history.index].state;
+}
+
+export function historyReducer(
+  history: TourHistory,
+  action: HistoryAction
+): TourHistory {
+  switch (action.type) {
+    case "undo":
+      return history.index > 0
+        ? { ...history, index: history.index - 1 }
+        : history;
+    case "redo":
+      return history.index < history.entries.length - 1
+        ? { ...history, index: history.index + 1 }
+        : history;
+    case "jump":
+      return action.index >= 0 && action.index < history.entries.length
+        ? { ...history, index: action.index }
+        : history;
+    case "reset":
+      return createHistory(action.state, action.label);
+    default: {
+      const present = currentState(history);
+      const state = tourReducer(present, action);
+      if (state === present) return history;
+
+      // A new edit discards anything that could have been redone
+      const entries = [
+        ...history.entries.slice(0, history.index + 1),
+        { label: describeAction(present, action), state },
+      ].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { renderMarkdown } from "../lib/markdown";
+import { TOUR_AUTO_ROTATE_SPEED } from "../lib/panoramaControls";
+import { createPanoramaView } from "../lib/panoramaView";
+import type { PanoramaView, SceneTransition } from "../lib/panoramaView";
+import type { PublishedTiles, PublishedTour } from "../lib/publish";
+import type { TilePyramid, TileSource } from "../lib/tilePyramid";
+import { isWebUrl } from "../lib/tourGraph";
+import type { Hotspot } from "../lib/tourGraph";
+
+declare global {
+  interface Window {
+    TOUR_DATA?: PublishedTour;
+  }
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  props: Partial<HTMLElementTagNameMap[K]> = {}
+): HTMLElementTagNameMap[K] {
+  return Object.assign(document.createElement(tag), props);
+}
+
+// The tiles published with a scene, found by its image, which is their
+// preview
+function publishedTiles(tour: PublishedTour): TileSource {
+  const tilesByImage = new Map<string, PublishedTiles>();
+  tour.scenes.forEach((scene) => {
+    if (scene.tiles) tilesByImage.set(scene.image, scene.tiles);
+  });
+  return async (imageUrl): Promise<TilePyramid | null> => {
+    const tiles = tilesByImage.get(imageUrl);
+    if (!tiles) return null;
+    const { width, height, previewWidth, levels } = tiles;
+    return {
+      width,
+      height,
+      previewUrl: imageUrl,
+      previewWidth,
+      levels,
+      tileUrl: async (level, index) => levels[level].tiles[index],
+    };
+  };
+}
+
+function startPlayer(tour: PublishedTour) {
+  const container = document.getElementById("player")!;
+  const title = document.getElementById("scene-title")!;
+  const infoPanel = document.getElementById("info-panel")!;
+  const motionToggle = document.getElementById("motion-toggle")!;
+  let view: PanoramaView | null = null;
+  // How to reach the scene a clicked link leads to; deep links and the
+  // browser's back button just crossfade
+  let transition: SceneTransition | null = null;
+
+  // Deep links use the scene id as the URL hash, e.g. index.html#abc123
+  const sceneFromHash = () => {
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    return (
+      tour.scenes.find((scene) => scene.id === id) ??
+      tour.scenes.find((scene) => scene.id === tour.startSceneId) ??
+      tour.scenes[0]
+    );
+  };
+
+  const showScene = () => {
+    const scene = sceneFromHash();
+    if (!scene) return;
+
+    infoPanel.style.display = "none";
+    const options = {
+      imageUrl: scene.image,
+      hotspots: scene.hotspots,
+      area: scene.area,
+      initialHeading: scene.initialHeading,
+      view: scene.view,
+    };
+    if (view) {
+      view.showScene(options, transition ?? { type: "crossfade" });
+    } else {
+      view = createPanoramaView(
+        container,
+        options,
+        { autoRotateSpeed: TOUR_AUTO_ROTATE_SPEED },
+        publishedTiles(tour)
+      );
+    }
+    transition = null;
+
+    // Load the scenes this one links to while the visitor looks around
+    const linked = new Set(
+      scene.hotspots.flatMap((hotspot) =>
+        hotspot.type === "link" && hotspot.targetNodeId
+          ? [hotspot.targetNodeId]
+          : []
+      )
+    );
+    view.preload(
+      tour.scenes
+        .filter((target) => linked.has(target.id))
+        .map((target) => ({ imageUrl: target.image }))
+    );
+    title.textContent = scene.label;
+    document.title = `${scene.label} - ${tour.name}`;
+  };
+
+  const showInfo = (hotspot: Hotspot) => {
+    const content = hotspot.content ?? {};
+    const close = element("button", { className: "close", textContent: "×" });
+    close.addEventListener("click", () => {
+      infoPanel.style.display = "none";
+    });
+
+    infoPanel.replaceChildren(
+      close,
+      element("h3", { textContent: hotspot.label })
+    );
+    if (content.imageUrl) {
+      infoPanel.append(element("img", { src: content.imageUrl }));
+    }
+    if (content.text) {
+      // renderMarkdown escapes its input before adding markup
+      infoPanel.append(
+        element("div", { innerHTML: renderMarkdown(content.text) })
+      );
+    }
+    if (content.videoUrl) {
+      infoPanel.append(
+        element("video", { src: content.videoUrl, controls: true })
+      );
+    }
+    // Checked again here in case the tour data was edited by hand
+    if (content.linkUrl && isWebUrl(content.linkUrl)) {
+      infoPanel.append(
+        element("a", {
+          href: content.linkUrl,
+          target: "_blank",
+          rel: "noopener noreferrer",
+          textContent: "Open link ↗",
+        })
+      );
+    }
+    infoPanel.style.display = "block";
+  };
+
+  container.addEventListener("click", (event) => {
+    const hotspot = view?.pickHotspot(event.clientX, event.clientY);
+    if (!hotspot) return;
+
+    if (hotspot.type === "link" && hotspot.targetNodeId) {
+      transition = {
+        type: hotspot.transition ?? "crossfade",
+        target: hotspot.position,
+        arrivalHeading: hotspot.arrivalHeading,
+      };
+      window.location.hash = encodeURIComponent(hotspot.targetNodeId);
+    } else {
+      showInfo(hotspot);
+    }
+  });
+
+  // Phones and tablets can steer by their motion sensors instead of drags
+  const hasMotion =
+    typeof DeviceOrientationEvent !== "undefined" &&
+    window.matchMedia("(pointer: coarse)").matches;
+  motionToggle.hidden = !hasMotion;
+  motionToggle.addEventListener("click", async () => {
+    if (!view) return;
+    const active = !motionToggle.classList.contains("active");
+    const enabled = await view.controls.setDeviceOrientation(active);
+    motionToggle.classList.toggle("active", enabled);
+    if (active && !enabled) {
+      motionToggle.textContent = "Motion sensors aren't available";
+    }
+  });
+
+  window.addEventListener("hashchange", showScene);
+  showScene();
+}
+
+if (window.TOUR_DATA) {
+  startPlayer(window.TOUR_DATA);
+} else {
+  document.body.textContent = "Tour data (tour-data.js) could not be loaded.";
+}
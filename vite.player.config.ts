@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Builds the standalone tour player into public/ so the editor can bundle it
+// into published tours. IIFE so it also runs from file:// URLs.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'public',
+    emptyOutDir: false,
+    lib: {
+      entry: 'src/player/main.ts',
+      name: 'TourPlayer',
+      formats: ['iife'],
+      fileName: () => 'player.js',
+    },
+  },
+})